@@ -11,12 +11,6 @@ const MapView: React.FC = props => {
   const [boundary, setBoundary] = useState<string | null | undefined>(null);
   const [positions, setPositions] = useState<number[][]>([]);
 
-  function coors2Boundary(coors: number[][]) {
-    if (!coors || coors.length < 3) return undefined;
-    const bound = 'POLYGON((' + coors.map(coor => coor.join(' ')).join(',') + '))';
-    return bound;
-  }
-
   useEffect(() => {
     // initialization
     const MapObj = new CesiumMap('cesiumContainer')
@@ -34,9 +28,8 @@ const MapView: React.FC = props => {
     MapObj.antiAliasing(true);
 
     DrawTool = new PolygonDrawer(MapObj.viewer, {
-      callback: (result) => {
-        const bound = coors2Boundary(result);
-        setBoundary(bound)
+      callback: () => {
+        setBoundary(DrawTool.toWKT());
         setWorking(false);
       },
       posChange: setPositions,
@@ -54,6 +47,8 @@ const MapView: React.FC = props => {
     if (working) {
       setBoundary(null);
       setPositions([]);
+      // 只保留一个边界, 重新绘制前移除已有的图形
+      DrawTool?.removeAll();
       DrawTool?.start();
     } else {
       if (!boundary) {
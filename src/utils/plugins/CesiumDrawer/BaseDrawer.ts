@@ -0,0 +1,2884 @@
+import * as Cesium from 'cesium';
+
+import { Cartesian2, Cartesian3, CallbackProperty, DataSource, Entity, LabelCollection, PointPrimitive, PointPrimitiveCollection, Viewer } from 'cesium';
+import Subscriber, { EventArgs } from './subscriber';
+import {
+  centroid,
+  coordinatesInRing,
+  fromPolar,
+  isPointInRing,
+  isRingInRing,
+  isSelfIntersecting,
+  midpoint,
+  Polar,
+  ringArea,
+  samePositions,
+  toPolar,
+} from './geometry';
+import { closeRing, Feature, FeatureCollection, geometryParts, openRing, toFeatures } from './geojson';
+import { parseWKT, stringifyWKT } from './wkt';
+import { findSnap, SnapOptions, SnapResult, targetRings } from './snap';
+import Emitter, { Listener } from './emitter';
+import {
+  applyPointStyle,
+  DEFAULT_STYLE,
+  DrawerStyle,
+  mergeStyle,
+  TOUCH_STYLE,
+  PointState,
+  PointStyle,
+  ShapeStyle,
+  toColor,
+  toMaterial,
+} from './style';
+import TouchControls from './TouchControls';
+import PrimitiveShape from './PrimitiveShape';
+import { createTooltip, TipKey, TooltipOption, TooltipRenderer } from './tooltip';
+import { DEFAULT_KEY_BINDINGS, findKeyAction, KeyAction, KeyBindings, keyHint } from './keyboard';
+import ToolManager from './ToolManager';
+
+/**
+ * 选点方式
+ * - ellipsoid: camera.pickEllipsoid, 点位于椭球面
+ * - globe: globe.pick, 点位于地形表面
+ * - scene: scene.pickPosition, 点位于地形、3D Tiles等场景表面
+ */
+export type PickMode = 'ellipsoid' | 'globe' | 'scene';
+
+/**
+ * 内置的图形校验, 面积单位为平方米
+ */
+export type ValidationOptions = {
+  /** 是否禁止自相交, 闭合的图形默认true, 线默认false */
+  selfIntersection?: boolean;
+  minArea?: number;
+  maxArea?: number;
+  /** 最多的控制点数 */
+  maxPoints?: number;
+  /** 允许绘制的区域, 未闭合的经纬度环 */
+  region?: number[][];
+}
+
+/**
+ * 输入方式
+ * - mouse: 鼠标悬停、右键和双击
+ * - touch: 单击添加点, 长按或点击首个点完成, 屏幕上显示撤销和完成按钮
+ * - auto: 主要输入设备为触摸屏时使用 touch
+ */
+export type InputMode = 'mouse' | 'touch' | 'auto';
+
+/**
+ * 编辑中的图形和控制点的渲染方式
+ * - entity: 以Entity绘制
+ * - primitive: 控制点以 PointPrimitiveCollection 绘制, 图形以图元绘制, 适合顶点很多的图形
+ */
+export type RenderMode = 'entity' | 'primitive';
+
+/**
+ * 控制点, 渲染方式为 primitive 时为点图元, 其id为点图元本身
+ */
+export type VertexHandle = Entity | PointPrimitive;
+
+export type BaseDrawerOptions = {
+  accuracy?: number;
+  pickMode?: PickMode;
+  inputMode?: InputMode;
+  render?: RenderMode;
+  /** 绘制工具鼠标事件的优先级, 默认100 */
+  eventPriority?: number;
+  midpoint?: boolean;
+  once?: boolean;
+  retainGeo?: boolean;
+  positions?: Cartesian3[]; // an empty array
+  callback?: (coors: number[][]) => void;
+  posChange?: (coors: number[][]) => void;
+  vertexDragStart?: (index: number, coor: number[], hole?: number) => void;
+  vertexDrag?: (index: number, coor: number[], hole?: number) => void;
+  vertexDragEnd?: (index: number, coor: number[], hole?: number) => void;
+  historyLimit?: number;
+  historyChange?: (state: HistoryState) => void;
+  shapeChange?: (id: string, shape: Feature | null) => void;
+  validation?: ValidationOptions;
+  /** 自定义校验, 返回无效的原因, 图形有效时不返回 */
+  validator?: (coors: number[][]) => string | void;
+  invalid?: (reason: string, coors: number[][]) => void;
+  snap?: boolean | SnapOptions;
+  /** 快捷键配置, 为false时不响应键盘 */
+  keys?: KeyBindings | false;
+  style?: DrawerStyle;
+  /** 提示方式, 默认为Cesium标签 */
+  tooltip?: TooltipOption;
+  tips?: {
+    leftClick?: string;
+    rightClick?: string;
+    doubleClick?: string;
+    edit?: string;
+    selfIntersection?: string;
+    minArea?: string;
+    maxArea?: string;
+    maxPoints?: string;
+    outOfRegion?: string;
+    holeOutside?: string;
+    keyFinish?: string;
+    keyCancel?: string;
+    keyRemove?: string;
+    keyUndo?: string;
+    tap?: string;
+    longPress?: string;
+    undoButton?: string;
+    finishButton?: string;
+  }
+}
+export type DrawerStatus = 'INIT' | 'START' | 'END' | 'EDITING' | 'DESTROY';
+
+export type HistoryState = {
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+/**
+ * 点的增删改事件参数, coordinate 为 [lon, lat] 或 [lon, lat, height], 洞的点带有洞的下标
+ */
+export type VertexEvent = {
+  target: BaseDrawer;
+  index: number;
+  coordinate: number[];
+  hole?: number;
+}
+
+/**
+ * 绘制工具的事件及事件参数
+ */
+export type DrawerEvents = {
+  /** 开始绘制 */
+  start: { target: BaseDrawer };
+  vertexAdd: VertexEvent;
+  vertexRemove: VertexEvent;
+  vertexMove: VertexEvent;
+  statusChange: { target: BaseDrawer; status: DrawerStatus; previous: DrawerStatus };
+  /** 坐标串改变, 与 posChange 同时触发 */
+  change: { target: BaseDrawer; coordinates: number[][] };
+  /** 图形完成或完成后被编辑, 与 callback 同时触发 */
+  complete: { target: BaseDrawer; id: string | null; coordinates: number[][] };
+  /** 放弃未完成的图形或洞 */
+  cancel: { target: BaseDrawer; hole: boolean };
+  /** 移除当前图形 */
+  clear: { target: BaseDrawer; id: string | null };
+  destroy: { target: BaseDrawer };
+}
+
+/**
+ * 操作历史记录, 保存去除活动点后的坐标串和所处的绘制阶段
+ */
+export type HistoryRecord = {
+  positions: Cartesian3[];
+  /** 洞(内环)的坐标串 */
+  holes?: Cartesian3[][];
+  /** 正在绘制的洞已添加的点, 此时外环处于完成状态 */
+  holeDraft?: Cartesian3[];
+  status: 'START' | 'END';
+}
+
+/** 变换控制柄, sw/se/ne/nw 为外包框四角的缩放控制柄 */
+type TransformRole = 'move' | 'rotate' | 'sw' | 'se' | 'ne' | 'nw';
+
+/**
+ * 变换开始时的图形状态, 各点以中心点为原点的极坐标表示
+ */
+type TransformFrame = {
+  origin: Cesium.Cartographic;
+  polars: Polar[];
+  minX: number;
+  maxX: number;
+  minY: number;
+  maxY: number;
+}
+
+/** 缩放的最小比例, 避免图形翻转 */
+const MIN_SCALE = 0.01;
+
+/** 触摸模式下长按完成绘制的时长(毫秒) */
+const LONG_PRESS_DELAY = 600;
+
+/** 触摸模式下点击首个点完成绘制的像素容差 */
+const TAP_TOLERANCE = 20;
+
+/** 查找被遮挡的控制点时最多拾取的对象数 */
+const DRILL_PICK_LIMIT = 5;
+
+/** 中点控制柄的样式 */
+const MIDPOINT_STYLE: PointStyle = {
+  color: Cesium.Color.WHITE.withAlpha(0.8),
+  pixelSize: 6,
+  outlineColor: Cesium.Color.YELLOW,
+  outlineWidth: 1,
+};
+
+/** 图形无效时的颜色 */
+const INVALID_COLOR = Cesium.Color.RED.withAlpha(0.5);
+
+/**
+ * 图形集合中的图形, 未选中的图形以静态的Entity显示
+ */
+type StoredShape = {
+  positions: Cartesian3[];
+  holes: Cartesian3[][];
+  properties: Record<string, any>;
+  /** 图形自身的样式, 覆盖绘制工具的样式 */
+  style: DrawerStyle;
+  entity: Entity | null;
+}
+
+function clonePositions(positions: Cartesian3[]) {
+  return positions.map(position => position.clone());
+}
+
+function toHierarchies(holes: Cartesian3[][]) {
+  return holes
+    .filter(hole => hole.length >= 3)
+    .map(hole => new Cesium.PolygonHierarchy(hole));
+}
+
+/**
+ * 绘制工具基类, 子类只需声明所需点数并实现 buildGeometry
+ */
+export default abstract class BaseDrawer {
+  protected _viewer: Viewer;
+  protected _callBack: ((coors: number[][]) => void) | undefined;
+  protected _posChange: ((coors: number[][]) => void) | undefined;
+  protected _pointGeometry: VertexHandle[] = [];
+  protected _activePoint: VertexHandle | null = null;
+  protected _shape: Entity | PrimitiveShape | null = null;
+  /** 渲染方式为 primitive 时的控制点集合 */
+  private _pointPrimitives: PointPrimitiveCollection | null = null;
+  protected _positions: Cartesian3[] = [];
+  private _currentStatus: DrawerStatus = 'INIT';
+  private _emitter = new Emitter<DrawerEvents>();
+  private _mouseDelta = 10;
+  /** 完成绘制所需的最少点数 */
+  protected abstract _minPointNum: number;
+  /** 达到该点数后自动完成绘制 */
+  protected _maxPointNum = Number.POSITIVE_INFINITY;
+  /** 图形是否首尾闭合, 决定最后一个点与第一个点之间是否有边 */
+  protected _closed = false;
+  /** 编辑时各边的中点控制柄 */
+  protected _midpoints: VertexHandle[] = [];
+  /** 正在拖拽的点的下标 */
+  protected _dragIndex: number | null = null;
+  private _enableInputs = true;
+  /** 是否可以旋转 */
+  protected _rotatable = true;
+  private _transforming = false;
+  private _transformHandles = new Map<Entity, TransformRole>();
+  private _transformDrag: { role: TransformRole; frame: TransformFrame; start: Polar } | null = null;
+  /** 是否支持在图形内绘制洞 */
+  protected _holeEnabled = false;
+  /** 洞(内环)的坐标串 */
+  protected _holes: Cartesian3[][] = [];
+  protected _holePoints: VertexHandle[][] = [];
+  /** 编辑时洞的各边的中点控制柄 */
+  protected _holeMidpoints: VertexHandle[][] = [];
+  /** 正在拖拽的点所在洞的下标, 拖拽外环的点时为null */
+  protected _dragHole: number | null = null;
+  /** 正在绘制的洞, positions 的最后一个坐标跟随鼠标 */
+  private _holeDraft: { positions: Cartesian3[]; points: VertexHandle[]; active: VertexHandle } | null = null;
+  /** 导入GeoJSON时的要素属性, 导出时原样输出 */
+  protected _properties: Record<string, any> = {};
+  /** 绘制工具的样式 */
+  private _style: DrawerStyle;
+  /** 当前图形自身的样式 */
+  private _shapeStyle: DrawerStyle = {};
+  private _history: HistoryRecord[] = [];
+  private _historyIndex = -1;
+  /** 已完成的图形, 以id为键 */
+  private _shapes = new Map<string, StoredShape>();
+  /** 当前编辑的图形id, 图形完成或导入后分配 */
+  private _currentId: string | null = null;
+  /** 当前图形无效的原因 */
+  private _invalidReason: string | null = null;
+  /** 图形无效时替换下的材质 */
+  private _validMaterial: Cesium.MaterialProperty | undefined;
+  /** 吸附位置的指示点 */
+  private _snapIndicator: Entity | null = null;
+  /** 是否按住Shift键, 按住时约束角度 */
+  private _shiftKey = false;
+  /** 为接收键盘事件修改前的canvas tabIndex 和 outline, 销毁时恢复 */
+  private _canvasFocus: { tabIndex: string | null; outline: string } | null = null;
+  /** 快捷键配置, 为null时不响应键盘 */
+  private _keys: Required<KeyBindings> | null;
+  /** 是否为触摸模式 */
+  private _touch: boolean;
+  private _touchControls: TouchControls | null = null;
+  /** 触摸模式下正在进行的长按 */
+  private _longPress: { position: Cartesian2; timer: number } | null = null;
+  /** 长按完成绘制后忽略抬起时的单击 */
+  private _suppressClick = false;
+  private _lastClickPosition: Cartesian2 = new Cesium.Cartesian2(Number.POSITIVE_INFINITY, Number.POSITIVE_INFINITY);
+  protected _options: BaseDrawerOptions = {
+    accuracy: 6,
+    pickMode: 'ellipsoid',
+    midpoint: true,
+    historyLimit: 100,
+    once: true,
+    retainGeo: true,
+  }
+  protected _subscriber: Subscriber;
+  private _tools: ToolManager;
+  private _events: string[] = [];
+  protected _labels: LabelCollection;
+  private _tooltip: TooltipRenderer;
+  /** 当前的提示 */
+  private _tip: { position?: Cartesian3; text: string; show: boolean; tipKey: TipKey | null } = {
+    text: '',
+    show: false,
+    tipKey: null,
+  };
+  protected _tips = {
+    leftClick: 'LeftClick to add point',
+    rightClick: 'RightClick cancel',
+    doubleClick: 'DoubleClick compleate',
+    edit: 'Drag to edit',
+    selfIntersection: 'Edges can not intersect',
+    minArea: 'Area is too small',
+    maxArea: 'Area is too large',
+    maxPoints: 'Too many points',
+    outOfRegion: 'Out of the allowed region',
+    holeOutside: 'Holes must be inside the shape',
+    keyFinish: 'finish',
+    keyCancel: 'cancel',
+    keyRemove: 'remove point',
+    keyUndo: 'undo',
+    tap: 'Tap to add point',
+    longPress: 'long press or tap the first point to finish',
+    undoButton: 'Undo',
+    finishButton: 'Finish',
+  }
+  protected _hoveredPoint: VertexHandle | null = null;
+
+  get status() {
+    return this._status;
+  }
+
+  /**
+   * 绘制状态, 改变时派发 statusChange 事件
+   */
+  protected get _status() {
+    return this._currentStatus;
+  }
+
+  protected set _status(status: DrawerStatus) {
+    const previous = this._currentStatus;
+    if (status === previous) return;
+    this._currentStatus = status;
+    // 图元绘制的图形在绘制和拖拽结束后才构建填充
+    this.updateShape();
+    this.emit('statusChange', { status, previous });
+  }
+
+  get canUndo() {
+    return this._historyIndex > 0;
+  }
+
+  get canRedo() {
+    return this._historyIndex < this._history.length - 1;
+  }
+
+  get isTransforming() {
+    return this._transforming;
+  }
+
+  get isDrawingHole() {
+    return !!this._holeDraft;
+  }
+
+  /**
+   * 当前图形无效的原因, 图形有效时为null
+   */
+  get validationError() {
+    return this._invalidReason;
+  }
+
+  /**
+   * 当前选中编辑的图形id
+   */
+  get selectedId() {
+    return this._currentId;
+  }
+
+  get isDestroy() {
+    return this._status === 'DESTROY'
+  }
+
+  /**
+   * 是否为viewer当前激活的工具
+   */
+  get isActive() {
+    return this._tools.active === this;
+  }
+
+  /**
+   * Create a drawer, the interaction and options are shared by all shapes
+   * @param viewer cesium viewer
+   * @param [options.accuracy] lonlat number accuracy.
+   * @param [options.pickMode] 'ellipsoid' | 'globe' | 'scene', default 'ellipsoid'.
+   * Falls back to globe and then ellipsoid when nothing is picked, and outputs [lon, lat, height] unless 'ellipsoid'.
+   * @param [options.inputMode] 'mouse' | 'touch' | 'auto', default 'mouse'.
+   * In touch mode tapping adds points, a long press or tapping the first point finishes, and undo/finish buttons are shown.
+   * @param [options.render] 'entity' | 'primitive', how to render the editing shape and its vertices, default 'entity'.
+   * 'primitive' draws vertices in a PointPrimitiveCollection and the shape with primitives for shapes with many vertices.
+   * @param [options.eventPriority] priority of the drawer's mouse handlers in Subscriber, default 100.
+   * Events used while drawing or editing are not passed to Subscriber handlers with a lower priority.
+   * @param [options.midpoint] If show midpoint handles on edges to insert vertices while editing, default true.
+   * @param [options.historyLimit] max number of undo steps, default 100.
+   * @param [options.historyChange] callback funciton after history changed, with canUndo and canRedo.
+   * @param [options.shapeChange] callback funciton with the shape id and GeoJSON feature when callback is called, the feature is null after removed.
+   * @param [options.validation] built-in checks: selfIntersection (default true for closed shapes, false for polylines), minArea, maxArea, maxPoints and the allowed region.
+   * @param [options.validator] custom check, returns the reason when the shape is invalid.
+   * @param [options.invalid] callback funciton with the reason when finishing or editing is refused.
+   * @param [options.snap] snap to vertices and edges of other shapes and targets, and hold Shift to constrain angles.
+   * true or { tolerance, vertex, edge, targets, angle }, default false.
+   * @param [options.style] point, activePoint, hoverPoint, material, outline, completed shape and label styles, see setStyle.
+   * @param [options.tooltip] 'label' | 'dom' | render function | renderer, how to show the tips, default 'label'.
+   * 'dom' is an overlay following the cursor over viewer.container, and a render function returns its HTML from the drawer state.
+   * @param [options.keys] key bindings on the canvas for finish, cancel, remove, undo and redo, or false to disable the keyboard.
+   * @param [options.once] If continue to draw the next shape.
+   * @param [options.retainGeo] If retain shape geo after drawing complete.
+   * @param [options.positions] The object onto which to store the position Array.
+   * @param [options.callback] callback funciton after drawing complete.
+   * @param [options.posChange] callback funciton after position array changed.
+   * @param [options.vertexDragStart] callback funciton when start dragging a vertex, with its index, coordinate and hole index for hole vertices.
+   * @param [options.vertexDrag] callback funciton while dragging a vertex.
+   * @param [options.vertexDragEnd] callback funciton after dragging a vertex.
+   * @param [options.tips] tip labels text config.
+   * @example
+   * const DrawTool = new PolygonDrawer(viewer, {
+      callback: (result) => {
+        console.log(result);
+      },
+      posChange: (coors) => {
+        console.log(coors)
+      },
+      tips: {
+        leftClick: intl.formatMessage({ id: 'drawer.leftClick' }),
+        rightClick: intl.formatMessage({ id: 'drawer.rightClick' }),
+        doubleClick: intl.formatMessage({ id: 'drawer.doubleClick' }),
+        edit: intl.formatMessage({ id: 'drawer.edit' }),
+      }
+    })
+   */
+  constructor(viewer: Viewer, options?: BaseDrawerOptions) {
+    if (!viewer) throw new Error('no viewer object');
+    this._viewer = viewer;
+    this._callBack = options?.callback;
+    this._posChange = options?.posChange;
+    this._options = { ...this._options, ...options };
+    if (options?.positions instanceof Array) {
+      this._positions = options.positions;
+    }
+    this._tips = { ...this._tips, ...options?.tips };
+    const { inputMode = 'mouse' } = options ?? {};
+    this._touch = inputMode === 'touch' || (inputMode === 'auto' && !!window.matchMedia?.('(pointer: coarse)').matches);
+    // 触摸模式下加大点, 方便手指拖拽
+    this._style = mergeStyle(mergeStyle(DEFAULT_STYLE, this._touch ? TOUCH_STYLE : {}), options?.style);
+    this._keys = options?.keys === false ? null : { ...DEFAULT_KEY_BINDINGS, ...options?.keys };
+
+    if (this._options.pickMode === 'scene' && !this._viewer.scene.pickPositionSupported) {
+      console.warn(
+        '浏览器不支持 pickPosition属性，将使用 globe.pick 选点'
+      )
+    }
+    this._labels = new LabelCollection();
+    viewer.scene.primitives.add(this._labels);
+    if (options?.render === 'primitive') {
+      this._pointPrimitives = viewer.scene.primitives.add(new PointPrimitiveCollection());
+    }
+    this._tooltip = createTooltip(viewer, this._labels, options?.tooltip);
+    this._tooltip.setStyle?.(this._style.label ?? {});
+    if (this._touch) {
+      this._touchControls = new TouchControls(viewer.container as HTMLElement, {
+        undo: () => this.undo(),
+        finish: () => this.endDraw(),
+        undoText: this._tips.undoButton,
+        finishText: this._tips.finishButton,
+      });
+    }
+    this._subscriber = new Subscriber(this._viewer, undefined, options?.eventPriority ?? 100);
+    this._tools = ToolManager.get(viewer);
+    window.addEventListener('keydown', this.handleShiftKey);
+    window.addEventListener('keyup', this.handleShiftKey);
+    window.addEventListener('blur', this.resetShiftKey);
+    if (this._keys) {
+      // canvas默认无法获得焦点, 需要设置tabIndex才能接收键盘事件
+      const { canvas } = this._viewer;
+      if (canvas.tabIndex < 0) {
+        this._canvasFocus = { tabIndex: canvas.getAttribute('tabindex'), outline: canvas.style.outline };
+        canvas.tabIndex = 0;
+        canvas.style.outline = 'none';
+      }
+      canvas.addEventListener('keydown', this.handleKeyDown);
+    }
+  }
+
+  private handleShiftKey = (event: KeyboardEvent) => {
+    this._shiftKey = event.shiftKey;
+  }
+
+  // 窗口失去焦点时收不到keyup, 视为松开Shift
+  private resetShiftKey = () => {
+    this._shiftKey = false;
+  }
+
+  /**
+   * 监听事件
+   * @param type 事件名
+   * @param listener 事件处理函数
+   * @example
+   * DrawTool.on('vertexAdd', ({ index, coordinate }) => console.log(index, coordinate));
+   */
+  on<K extends keyof DrawerEvents>(type: K, listener: Listener<DrawerEvents[K]>) {
+    this._emitter.on(type, listener);
+    return this;
+  }
+
+  /**
+   * 监听事件, 触发一次后自动移除
+   * @param type 事件名
+   * @param listener 事件处理函数
+   */
+  once<K extends keyof DrawerEvents>(type: K, listener: Listener<DrawerEvents[K]>) {
+    this._emitter.once(type, listener);
+    return this;
+  }
+
+  /**
+   * 移除监听, 不传处理函数时移除该事件的所有监听
+   * @param type 事件名
+   * @param listener 事件处理函数
+   */
+  off<K extends keyof DrawerEvents>(type: K, listener?: Listener<DrawerEvents[K]>) {
+    this._emitter.off(type, listener);
+    return this;
+  }
+
+  /**
+   * 派发事件, 事件参数自动带上 target
+   */
+  protected emit<K extends keyof DrawerEvents>(type: K, payload: Omit<DrawerEvents[K], 'target'>) {
+    this._emitter.emit(type, { ...payload, target: this } as unknown as DrawerEvents[K]);
+  }
+
+  /**
+   * 派发点的增删改事件
+   * @param type 事件名
+   * @param index 点的下标
+   * @param position 点的坐标
+   * @param hole 点所在洞的下标, 外环的点为null
+   */
+  private emitVertex(type: 'vertexAdd' | 'vertexRemove' | 'vertexMove', index: number, position: Cartesian3, hole: number | null = null) {
+    this.emit(type, { index, coordinate: this.cartesian2lonlat(position), hole: hole ?? undefined });
+  }
+
+  /**
+   * canvas的键盘事件, 执行快捷键对应的操作
+   */
+  private handleKeyDown = (event: KeyboardEvent) => {
+    if (!this._keys || !this.isActive) return;
+    const action = findKeyAction(event, this._keys);
+    if (action && this.handleKeyAction(action)) event.preventDefault();
+  }
+
+  /**
+   * 执行快捷键操作
+   * @param action 操作
+   * @returns {boolean} 操作是否生效
+   */
+  protected handleKeyAction(action: KeyAction) {
+    if (this._dragIndex !== null || this._transformDrag) return false;
+    switch (action) {
+      case 'finish':
+        return this._status === 'START' && this.endDraw();
+      case 'cancel':
+        if (this._holeDraft) {
+          this.cancelHole();
+        } else if (this._transforming) {
+          this.stopTransform();
+        } else if (this._status === 'START') {
+          this.clear();
+        } else if (this._currentId) {
+          // 退出编辑, 图形保留在图形集合中
+          this.deactivate();
+        } else {
+          return false;
+        }
+        return true;
+      case 'remove':
+        return this.removeActiveVertex();
+      case 'undo':
+        return this.undo();
+      case 'redo':
+        return this.redo();
+    }
+    return false;
+  }
+
+  /**
+   * 移除活动点: 绘制时移除上一个点, 编辑时移除鼠标下的点
+   * @returns {boolean} 是否移除成功
+   */
+  private removeActiveVertex() {
+    if (this._holeDraft) {
+      if (!this._holeDraft.points.length) return false;
+      this.removeHolePoint();
+      return true;
+    }
+    if (this._status === 'START') {
+      const index = this._activePoint ? this._pointGeometry.indexOf(this._activePoint) : -1;
+      if (index <= 0 || !this.removeOnePosition(index - 1)) return false;
+      this.updateLabel();
+      return true;
+    }
+    const entity = this._hoveredPoint;
+    if (!entity || this._status !== 'END') return false;
+    const hole = this._holePoints.findIndex(points => points.includes(entity));
+    const removed = hole === -1
+      ? this._positions.length > this._minPointNum && this.removeOnePosition(this._pointGeometry.indexOf(entity))
+      : this.removeHolePosition(hole, this._holePoints[hole].indexOf(entity));
+    if (removed) this.clearHover();
+    return removed;
+  }
+
+  /**
+   * 取消鼠标下点的高亮
+   */
+  private clearHover() {
+    if (!this._hoveredPoint) return;
+    this._hoveredPoint = null;
+    this.updateLabel({ show: false });
+    this._tools.setCursor(this);
+  }
+
+  /**
+   * 更新提示信息
+   * @param options 提示位置、提示文字及对应的 tips 配置项， 不填则按照默认逻辑更新
+   */
+  protected updateLabel(options: {
+    position?: Cartesian3;
+    text?: string;
+    tipKey?: TipKey | null;
+    show?: boolean;
+  } | undefined = undefined) {
+    const tip = this._tip;
+    if (!options) {
+      const drawing = !!this._activePoint || !!this._holeDraft;
+      options = drawing ? { text: this.getTipText(), tipKey: this.getTipKey() } : { show: false };
+    }
+
+    const { position, text, tipKey = null, show = true } = options;
+    if (position) tip.position = position;
+    if (text !== undefined) {
+      tip.text = text;
+      tip.tipKey = tipKey;
+    }
+    tip.show = show;
+    this._tooltip.update({
+      ...tip,
+      invalidReason: this._invalidReason,
+      status: this._status,
+      vertexCount: this._holeDraft ? this._holeDraft.points.length : this.getFixedPositions().length,
+    });
+    this.updateTouchControls();
+  }
+
+  /**
+   * 更新触摸模式下的撤销和完成按钮, 绘制时或可以撤销时显示
+   */
+  private updateTouchControls() {
+    if (!this._touchControls) return;
+    const drawing = this._status === 'START';
+    const canFinish = this._holeDraft
+      ? this._holeDraft.points.length >= 3
+      : this.getFixedPositions().length >= this._minPointNum && this._maxPointNum === Number.POSITIVE_INFINITY;
+    this._touchControls.update({
+      show: drawing || (this._status === 'END' && this.canUndo),
+      canUndo: this.canUndo,
+      canFinish: drawing && canFinish,
+    });
+  }
+
+  /**
+   * 绘制过程中的提示文字
+   */
+  protected getTipText() {
+    const tip = this.getActionTip();
+    return this._invalidReason ? `${tip}\n${this._invalidReason}` : tip;
+  }
+
+  /**
+   * 绘制过程中的提示对应的 tips 配置项
+   */
+  private getTipKey(): TipKey {
+    return this.canFinish() ? 'doubleClick' : 'leftClick';
+  }
+
+  /**
+   * 绘制中的图形或洞是否可以完成
+   */
+  private canFinish() {
+    return this._holeDraft
+      ? this._holeDraft.points.length >= 3
+      : this._positions.length >= this._minPointNum && this._maxPointNum === Number.POSITIVE_INFINITY;
+  }
+
+  /**
+   * 绘制过程中的操作提示
+   */
+  private getActionTip() {
+    const { leftClick, rightClick, doubleClick, tap, longPress } = this._tips;
+    const canFinish = this.canFinish();
+    if (this._touch) return canFinish ? `${tap}, ${longPress}` : tap;
+    const mouseTip = canFinish ? `${leftClick}, ${rightClick}, ${doubleClick}` : `${leftClick}, ${rightClick}`;
+    const keyTip = this.getKeyTip(canFinish ? ['finish', 'remove', 'cancel', 'undo'] : ['remove', 'cancel', 'undo']);
+    return keyTip ? `${mouseTip}\n${keyTip}` : mouseTip;
+  }
+
+  /**
+   * 快捷键提示, 如 Enter finish, Esc cancel
+   * @param actions 需要提示的操作
+   */
+  private getKeyTip(actions: ('finish' | 'cancel' | 'remove' | 'undo')[]) {
+    if (!this._keys) return '';
+    const texts = {
+      finish: this._tips.keyFinish,
+      cancel: this._tips.keyCancel,
+      remove: this._tips.keyRemove,
+      undo: this._tips.keyUndo,
+    };
+    return actions
+      .map(action => {
+        const key = keyHint(this._keys as Required<KeyBindings>, action);
+        return key ? `${key} ${texts[action]}` : null;
+      })
+      .filter(Boolean)
+      .join(', ');
+  }
+
+  /**
+   * 去除活动点后的坐标串
+   */
+  protected getFixedPositions() {
+    const posIndex = this._activePoint ? this._pointGeometry.indexOf(this._activePoint) : -1;
+    return this._positions.filter((item, index) => index !== posIndex);
+  }
+
+  /**
+   * positions数组改变后调用回调函数
+   */
+  protected handlePosChange = () => {
+    this.refresh();
+    const coordinates = this.toCoordinates(this.getFixedPositions());
+    // 配置中的回调不放入事件监听, 避免被 off 移除, 子类可替换 _posChange
+    this._posChange?.(coordinates);
+    this.emit('change', { coordinates });
+  }
+
+  /**
+   * 绘制完成后调用回调函数
+   */
+  protected handleCallback = () => {
+    const coordinates = this.toCoordinates(this._positions);
+    this._callBack?.(coordinates);
+    this.emit('complete', { id: this._currentId, coordinates });
+    if (this._currentId) this._options.shapeChange?.(this._currentId, this.toGeoJSON());
+  }
+
+  /**
+   * 校验图形, 依次进行内置校验和自定义校验
+   * @param positions 控制点坐标串
+   * @returns 无效的原因, 图形有效或点数不足时返回null
+   */
+  protected validate(positions: Cartesian3[]): string | null {
+    if (positions.length < this._minPointNum) return null;
+    const { validation, validator } = this._options;
+    const { selfIntersection = this._closed, minArea, maxArea, maxPoints, region } = validation ?? {};
+    const coors = this.toCoordinates(positions);
+    if (maxPoints && positions.length > maxPoints) return this._tips.maxPoints;
+    if (selfIntersection && isSelfIntersecting(coors, this._closed)) return this._tips.selfIntersection;
+    if (this._closed && (minArea || maxArea)) {
+      const area = ringArea(coors) - this.getHoleCoordinates().reduce((sum, hole) => sum + ringArea(hole), 0);
+      if (minArea && area < minArea) return this._tips.minArea;
+      if (maxArea && area > maxArea) return this._tips.maxArea;
+    }
+    if (region && !coordinatesInRing(coors, region, this._closed)) return this._tips.outOfRegion;
+    if (this._closed && this._holes.some(hole => !isRingInRing(hole, positions))) return this._tips.holeOutside;
+    return validator?.(coors) || null;
+  }
+
+  /**
+   * 图形坐标变化后刷新附属的显示, 子类可重写以更新额外的显示
+   */
+  protected refresh() {
+    this.updateMidpointPositions();
+    this.updateValidity();
+    this.updateShape();
+  }
+
+  /**
+   * 更新图元绘制的图形, 按输出的坐标绘制, 绘制和拖拽时只更新线
+   */
+  private updateShape() {
+    if (!(this._shape instanceof PrimitiveShape)) return;
+    const ring = this.toCoordinates(this._positions).map(coor => this.lonlat2cartesian(coor));
+    const settled = this._status === 'END' && !this._transformDrag && !this._holeDraft;
+    this._shape.update(ring, this.getHoleHierarchies(), settled);
+  }
+
+  /**
+   * 校验当前图形, 无效时图形显示为红色, 标签显示原因
+   */
+  private updateValidity() {
+    this._invalidReason = this.validate(this._positions);
+    if (this._shape instanceof PrimitiveShape) {
+      this.applyPrimitiveStyle(this._shape);
+      return;
+    }
+    const graphics = this._shape?.polygon ?? this._shape?.polyline;
+    if (!graphics) return;
+    if (this._invalidReason && !this._validMaterial) {
+      this._validMaterial = graphics.material;
+      graphics.material = new Cesium.ColorMaterialProperty(INVALID_COLOR);
+    } else if (!this._invalidReason && this._validMaterial) {
+      graphics.material = this._validMaterial;
+      this._validMaterial = undefined;
+    }
+  }
+
+  /**
+   * 结束一次编辑: 图形无效时恢复到上一条历史记录, 否则记录历史并触发回调
+   * @returns {boolean} 编辑是否被保留
+   */
+  protected commitEdit() {
+    if (this.rejectInvalid()) return false;
+    this.recordHistory();
+    this.handlePosChange();
+    this.handleCallback();
+    return true;
+  }
+
+  /**
+   * 图形无效时通知应用并恢复到上一条历史记录
+   * @returns {boolean} 图形是否无效
+   */
+  protected rejectInvalid() {
+    const positions = this.getFixedPositions();
+    const reason = this.validate(positions);
+    if (!reason) return false;
+    this._options.invalid?.(reason, this.toCoordinates(positions));
+    const last = this._history[this._historyIndex];
+    if (last) {
+      // 恢复后坐标回到上一次完成的状态, 只通知坐标变化, 不再触发完成回调
+      this.restore(last);
+      this.handlePosChange();
+    }
+    return true;
+  }
+
+  /**
+   * 洞的经纬度数组, 不含正在绘制的洞
+   */
+  protected getHoleCoordinates() {
+    return this._holes.map(hole => hole.map(this.cartesian2lonlat));
+  }
+
+  /**
+   * 洞的多边形层次, 包括正在绘制的洞, 供 buildGeometry 构建带洞的多边形
+   */
+  protected getHoleHierarchies() {
+    return toHierarchies(this._holeDraft ? [...this._holes, this._holeDraft.positions] : this._holes);
+  }
+
+  /**
+   * 将坐标串转为回调函数输出的经纬度数组
+   * @param positions cesium坐标串
+   */
+  protected toCoordinates(positions: Cartesian3[]) {
+    return positions.map(this.cartesian2lonlat);
+  }
+
+  /**
+   * 将输出的经纬度数组转回控制点坐标串, 为 toCoordinates 的逆过程
+   * @param coors 经纬度数组
+   */
+  protected fromCoordinates(coors: number[][]) {
+    return coors.map(coor => this.lonlat2cartesian(coor));
+  }
+
+  /**
+   * 绘制一个点, 新的点为活动点样式
+   */
+  protected drawPoint(position: Cartesian3) {
+    const pointGeometry = this.addHandle(position);
+    this.setPointState(pointGeometry, 'activePoint');
+    this._viewer.scene.requestRender();
+    return pointGeometry;
+  }
+
+  /**
+   * 按渲染方式添加控制点, 点图元的id设为其本身, 与Entity一样通过拾取结果的id识别
+   * @param position 点坐标
+   */
+  private addHandle(position: Cartesian3): VertexHandle {
+    if (!this._pointPrimitives) {
+      return this._viewer.entities.add({
+        position,
+        point: {
+          disableDepthTestDistance: Number.POSITIVE_INFINITY,
+        },
+      });
+    }
+    const point = this._pointPrimitives.add({ position, disableDepthTestDistance: Number.POSITIVE_INFINITY });
+    point.id = point;
+    return point;
+  }
+
+  /**
+   * 移除控制点
+   * @param handle 控制点
+   */
+  protected removeHandle(handle: VertexHandle) {
+    if (handle instanceof Cesium.Entity) {
+      this._viewer.entities.remove(handle);
+    } else if (this._pointPrimitives && !this._pointPrimitives.isDestroyed()) {
+      this._pointPrimitives.remove(handle);
+    }
+  }
+
+  /**
+   * 修改控制点的坐标
+   * @param handle 控制点
+   * @param position cesium坐标
+   */
+  protected setHandlePosition(handle: VertexHandle, position: Cartesian3) {
+    if (handle instanceof Cesium.Entity) {
+      (handle.position as any)?.setValue(position);
+    } else {
+      handle.position = position;
+    }
+  }
+
+  /**
+   * 按点的状态设置样式
+   * @param entity 控制点
+   * @param state 已添加的点、活动点或鼠标下的点
+   */
+  protected setPointState(entity: VertexHandle, state: PointState) {
+    applyPointStyle(entity, this.getStyle()[state]);
+  }
+
+  /**
+   * 当前图形的样式, 图形自身的样式覆盖绘制工具的样式
+   */
+  protected getStyle() {
+    return mergeStyle(this._style, this._shapeStyle);
+  }
+
+  /**
+   * 图形集合中未选中图形的样式
+   * @param shapeStyle 图形自身的样式
+   */
+  private getCompletedStyle(shapeStyle: DrawerStyle): ShapeStyle {
+    const { material, outline, completed } = mergeStyle(this._style, shapeStyle);
+    return {
+      material: completed?.material ?? material,
+      outline: completed?.outline ?? outline,
+    };
+  }
+
+  /**
+   * 设置图形Entity的填充和边线, 多边形的边线以同一Entity的polyline沿外环绘制
+   * @param entity 图形Entity
+   * @param style 图形样式
+   */
+  private applyShapeStyle(entity: Entity, style: ShapeStyle) {
+    const { material, outline } = style;
+    const graphics = entity.polygon ?? entity.polyline;
+    if (material && graphics) {
+      // 当前图形无效时先替换保存的有效材质
+      if (entity === this._shape && this._validMaterial) {
+        this._validMaterial = toMaterial(material);
+      } else {
+        graphics.material = toMaterial(material);
+      }
+    }
+    const { polygon } = entity;
+    if (!polygon) return;
+    if (!outline) {
+      entity.polyline = undefined;
+      return;
+    }
+    const { hierarchy } = polygon;
+    entity.polyline = new Cesium.PolylineGraphics({
+      positions: new Cesium.CallbackProperty(time => {
+        const positions: Cartesian3[] = hierarchy?.getValue(time ?? this._viewer.clock.currentTime)?.positions ?? [];
+        return positions.length ? [...positions, positions[0]] : [];
+      }, hierarchy?.isConstant ?? false),
+      width: outline.width ?? 2,
+      material: outline.color ?? Cesium.Color.YELLOW,
+      arcType: polygon.arcType,
+      clampToGround: this._options.pickMode !== 'ellipsoid',
+    });
+  }
+
+  /**
+   * 设置图元绘制的图形的样式, 图元只支持纯色, 图形无效时填充显示为红色
+   * @param shape 图元绘制的图形
+   */
+  private applyPrimitiveStyle(shape: PrimitiveShape) {
+    const { material, outline } = this.getStyle();
+    const invalid = !!this._invalidReason;
+    if (!this._closed) {
+      // 线图形的线即为图形本身
+      const line = invalid ? INVALID_COLOR : toColor(material, Cesium.Color.YELLOW);
+      shape.setStyle({ fill: line, line, lineWidth: (outline && outline.width) || 3 });
+      return;
+    }
+    shape.setStyle({
+      fill: invalid ? INVALID_COLOR : toColor(material, Cesium.Color.YELLOW.withAlpha(0.5)),
+      line: outline ? outline.color ?? Cesium.Color.YELLOW : undefined,
+      lineWidth: (outline && outline.width) || 2,
+    });
+  }
+
+  /**
+   * 修改样式, 不指定id时修改绘制工具的样式, 指定id时只修改该图形的样式
+   * @param style 样式, 按属性合并到原样式
+   * @param id 图形id
+   * @returns {boolean} 是否修改成功
+   */
+  setStyle(style: DrawerStyle, id?: string) {
+    if (id === undefined) {
+      this._style = mergeStyle(this._style, style);
+    } else if (id === this._currentId) {
+      this._shapeStyle = mergeStyle(this._shapeStyle, style);
+    } else {
+      const stored = this._shapes.get(id);
+      if (!stored) return false;
+      stored.style = mergeStyle(stored.style, style);
+    }
+    this.updateStyles();
+    return true;
+  }
+
+  /**
+   * 将样式重新应用到所有的图形、点和标签
+   */
+  private updateStyles() {
+    if (this._shape instanceof PrimitiveShape) {
+      this.applyPrimitiveStyle(this._shape);
+    } else if (this._shape) {
+      this.applyShapeStyle(this._shape, this.getStyle());
+    }
+    this._shapes.forEach(stored => {
+      if (stored.entity) this.applyShapeStyle(stored.entity, this.getCompletedStyle(stored.style));
+    });
+    const points = [...this._pointGeometry, ...this._holePoints.flat(), ...(this._holeDraft?.points ?? [])];
+    points.forEach(entity => this.setPointState(entity, this.getPointState(entity)));
+    if (this._holeDraft) this.setPointState(this._holeDraft.active, 'activePoint');
+    this._tooltip.setStyle?.(this.getStyle().label ?? {});
+    this._viewer.scene.requestRender();
+  }
+
+  /**
+   * 点当前所处的状态
+   */
+  private getPointState(entity: VertexHandle): PointState {
+    if (entity === this._hoveredPoint) return 'hoverPoint';
+    if (entity === this._activePoint) return 'activePoint';
+    return 'point';
+  }
+
+  /**
+   * 点Entity的左键按下事件, 开始拖拽该点
+   */
+  protected onMouseDownPoint = (movement: EventArgs, entity: VertexHandle) => {
+    if (this._status !== 'END' || this._transforming) return;
+    const index = this._pointGeometry.indexOf(entity);
+    if (index === -1) return;
+    movement.stopPropagation?.();
+    this._status = 'EDITING';
+    this.updateMidpoints();
+    this.startDrag(index);
+  }
+
+  /**
+   * 洞的点Entity的左键按下事件, 开始拖拽该点
+   */
+  protected onMouseDownHolePoint = (movement: EventArgs, entity: VertexHandle) => {
+    if (this._status !== 'END' || this._transforming) return;
+    const hole = this._holePoints.findIndex(points => points.includes(entity));
+    if (hole === -1) return;
+    movement.stopPropagation?.();
+    this._status = 'EDITING';
+    this.updateMidpoints();
+    this.startDrag(this._holePoints[hole].indexOf(entity), hole);
+  }
+
+  /**
+   * 重新生成各边的中点控制柄, 仅在绘制结束后的可编辑状态显示
+   */
+  protected updateMidpoints() {
+    this._subscriber.remove(this._midpoints, 'LEFT_DOWN');
+    this._midpoints.forEach(entity => this.removeHandle(entity));
+    this._midpoints = [];
+    this._holeMidpoints.forEach(handles => {
+      this._subscriber.remove(handles, 'LEFT_DOWN');
+      handles.forEach(entity => this.removeHandle(entity));
+    });
+    this._holeMidpoints = [];
+    const num = this._pointGeometry.length;
+    if (
+      this._status !== 'END' ||
+      this._transforming ||
+      !this._options.midpoint ||
+      this._maxPointNum !== Number.POSITIVE_INFINITY ||
+      num < 2
+    ) return;
+
+    const edgeNum = this._closed && num > 2 ? num : num - 1;
+    for (let i = 0; i < edgeNum; i++) {
+      const handle = this.addHandle(this.getMidpoint(i));
+      applyPointStyle(handle, MIDPOINT_STYLE);
+      this._midpoints.push(handle);
+    }
+    this._subscriber.add(this._midpoints, this.onMouseDownMidpoint, 'LEFT_DOWN');
+    this._holeMidpoints = this._holes.map((hole, index) => hole.map((_, i) => {
+      const handle = this.addHandle(this.getMidpoint(i, index));
+      applyPointStyle(handle, MIDPOINT_STYLE);
+      return handle;
+    }));
+    this._holeMidpoints.forEach(handles => this._subscriber.add(handles, this.onMouseDownHoleMidpoint, 'LEFT_DOWN'));
+    this._viewer.scene.requestRender();
+  }
+
+  /**
+   * 第 index 条边的中点
+   * @param hole 边所在洞的下标, 外环的边为null
+   */
+  private getMidpoint(index: number, hole: number | null = null) {
+    const ring = hole === null ? this._positions : this._holes[hole];
+    return midpoint(ring[index], ring[(index + 1) % ring.length]);
+  }
+
+  /**
+   * 坐标改变后移动中点控制柄
+   */
+  private updateMidpointPositions() {
+    const { length } = this._positions;
+    this._midpoints.forEach((handle, index) => {
+      if (index < length && (index + 1 < length || this._closed)) this.setHandlePosition(handle, this.getMidpoint(index));
+    });
+    this._holeMidpoints.forEach((handles, hole) => handles.forEach((handle, index) => {
+      if (index < (this._holes[hole]?.length ?? 0)) this.setHandlePosition(handle, this.getMidpoint(index, hole));
+    }));
+  }
+
+  /**
+   * 中点控制柄的左键按下事件, 在该边插入新的点并开始拖拽
+   */
+  protected onMouseDownMidpoint = (movement: EventArgs, entity: VertexHandle) => {
+    const index = this._midpoints.indexOf(entity);
+    if (index === -1 || this._status !== 'END') return;
+    // 短边的中点遮挡控制点时拖拽被遮挡的控制点, 与悬停时的高亮一致
+    const vertex = movement.position && this.pickEntity(movement, movement.position, (item): item is VertexHandle => this.isVertex(item));
+    if (vertex) {
+      if (this._pointGeometry.includes(vertex)) this.onMouseDownPoint(movement, vertex);
+      else this.onMouseDownHolePoint(movement, vertex);
+      return;
+    }
+    const position = this.getMidpoint(index);
+    movement.stopPropagation?.();
+    this._status = 'EDITING';
+    this.insertPosition(index + 1, position);
+    this.startDrag(index + 1);
+  }
+
+  /**
+   * 洞的中点控制柄的左键按下事件, 在洞的该边插入新的点并开始拖拽
+   */
+  protected onMouseDownHoleMidpoint = (movement: EventArgs, entity: VertexHandle) => {
+    const hole = this._holeMidpoints.findIndex(handles => handles.includes(entity));
+    if (hole === -1 || this._status !== 'END') return;
+    const vertex = movement.position && this.pickEntity(movement, movement.position, (item): item is VertexHandle => this.isVertex(item));
+    if (vertex) {
+      if (this._pointGeometry.includes(vertex)) this.onMouseDownPoint(movement, vertex);
+      else this.onMouseDownHolePoint(movement, vertex);
+      return;
+    }
+    const index = this._holeMidpoints[hole].indexOf(entity);
+    const position = this.getMidpoint(index, hole);
+    movement.stopPropagation?.();
+    this._status = 'EDITING';
+    this.insertHolePosition(hole, index + 1, position);
+    this.startDrag(index + 1, hole);
+  }
+
+  /**
+   * 开始拖拽一个点, 拖拽过程中禁用相机操作
+   * @param index 点的下标
+   * @param hole 点所在洞的下标, 外环的点为null
+   */
+  protected startDrag(index: number, hole: number | null = null) {
+    this._dragIndex = index;
+    this._dragHole = hole;
+    this.lockCamera();
+    this.updateLabel({ show: false });
+    this._options.vertexDragStart?.(index, this.cartesian2lonlat(this.getVertex(index, hole)), hole ?? undefined);
+  }
+
+  /**
+   * 拖拽点到新的位置
+   */
+  protected dragTo(position: Cartesian3) {
+    if (this._dragIndex === null) return;
+    const hole = this._dragHole;
+    if (hole === null) {
+      this.setPosition(this._dragIndex, position);
+    } else {
+      // 洞的点不能拖出外环
+      if (!isPointInRing(position, this._positions)) return;
+      this.setHolePosition(hole, this._dragIndex, position);
+    }
+    this.refresh();
+    this.updateLabel({
+      position,
+      text: this._invalidReason ?? '',
+      show: !!this._invalidReason,
+    });
+    this._options.vertexDrag?.(this._dragIndex, this.cartesian2lonlat(position), hole ?? undefined);
+    this.emitVertex('vertexMove', this._dragIndex, position, hole);
+  }
+
+  /**
+   * 获取外环或洞的一个点
+   */
+  private getVertex(index: number, hole: number | null) {
+    return hole === null ? this._positions[index] : this._holes[hole][index];
+  }
+
+  /**
+   * 左键抬起时结束拖拽
+   */
+  protected handleMouseUp = (movement?: EventArgs) => {
+    this.cancelLongPress();
+    if (this._transformDrag) {
+      movement?.stopPropagation?.();
+      this.endTransformDrag();
+      return;
+    }
+    if (this._dragIndex === null) return;
+    movement?.stopPropagation?.();
+    const index = this._dragIndex;
+    const hole = this._dragHole;
+    this._dragIndex = null;
+    this._dragHole = null;
+    this.unlockCamera();
+    this._status = 'END';
+    this.updateMidpoints();
+    this._options.vertexDragEnd?.(index, this.cartesian2lonlat(this.getVertex(index, hole)), hole ?? undefined);
+    this.updateLabel({ show: false });
+    this.commitEdit();
+  }
+
+  /**
+   * 开启变换模式, 通过控制柄整体平移、旋转和缩放图形
+   * @returns {boolean} 是否开启成功
+   */
+  startTransform() {
+    if (this._status !== 'END' || this._positions.length < 2) return false;
+    this.stopTransform();
+    this._transforming = true;
+    this.updateMidpoints();
+    const roles: TransformRole[] = ['move', 'sw', 'se', 'ne', 'nw'];
+    if (this._rotatable) roles.splice(1, 0, 'rotate');
+    roles.forEach(role => {
+      const entity = this._viewer.entities.add({
+        position: new Cesium.ConstantPositionProperty(),
+        point: {
+          color: role === 'move' ? Cesium.Color.ORANGE : role === 'rotate' ? Cesium.Color.LIME : Cesium.Color.WHITE,
+          pixelSize: role === 'move' ? 12 : 8,
+          outlineColor: Cesium.Color.YELLOW,
+          outlineWidth: 2,
+          disableDepthTestDistance: Number.POSITIVE_INFINITY,
+        },
+      });
+      this._transformHandles.set(entity, role);
+    });
+    this._subscriber.add([...this._transformHandles.keys()], this.onMouseDownTransformHandle, 'LEFT_DOWN');
+    this.updateTransformHandles();
+    return true;
+  }
+
+  /**
+   * 关闭变换模式
+   */
+  stopTransform() {
+    if (this._transformDrag) {
+      this._transformDrag = null;
+      this.unlockCamera();
+    }
+    const handles = [...this._transformHandles.keys()];
+    this._subscriber.remove(handles, 'LEFT_DOWN');
+    handles.forEach(entity => this._viewer.entities.remove(entity));
+    this._transformHandles.clear();
+    if (!this._transforming) return;
+    this._transforming = false;
+    this.updateMidpoints();
+    this._viewer.scene.requestRender();
+  }
+
+  /**
+   * 计算图形当前的变换状态, 外包框在中心点的局部平面(x向东, y向北)中计算, 洞的点随外环一起变换
+   */
+  private getTransformFrame(): TransformFrame {
+    const origin = centroid(this._positions);
+    const polars = [...this._positions, ...this._holes.flat()]
+      .map(position => toPolar(origin, Cesium.Cartographic.fromCartesian(position)));
+    const xs = polars.map(({ distance, bearing }) => distance * Math.sin(bearing));
+    const ys = polars.map(({ distance, bearing }) => distance * Math.cos(bearing));
+    return {
+      origin,
+      polars,
+      minX: Math.min(...xs),
+      maxX: Math.max(...xs),
+      minY: Math.min(...ys),
+      maxY: Math.max(...ys),
+    };
+  }
+
+  /**
+   * 局部平面坐标转cesium坐标
+   */
+  private frame2cartesian(frame: TransformFrame, x: number, y: number) {
+    const carto = fromPolar(frame.origin, {
+      distance: Math.hypot(x, y),
+      bearing: Math.atan2(x, y),
+      height: frame.origin.height,
+    });
+    return Cesium.Cartographic.toCartesian(carto);
+  }
+
+  /**
+   * 根据当前图形更新变换控制柄的位置
+   */
+  private updateTransformHandles() {
+    if (!this._transformHandles.size) return;
+    const frame = this.getTransformFrame();
+    const { minX, maxX, minY, maxY } = frame;
+    this._transformHandles.forEach((role, entity) => {
+      let position: Cartesian3;
+      if (role === 'move') {
+        position = Cesium.Cartographic.toCartesian(frame.origin);
+      } else if (role === 'rotate') {
+        position = this.frame2cartesian(frame, (minX + maxX) / 2, maxY + Math.max((maxY - minY) * 0.2, 1));
+      } else {
+        const x = role.includes('w') ? minX : maxX;
+        const y = role.includes('s') ? minY : maxY;
+        position = this.frame2cartesian(frame, x, y);
+      }
+      (entity.position as any).setValue(position);
+    });
+    this._viewer.scene.requestRender();
+  }
+
+  /**
+   * 变换控制柄的左键按下事件, 记录变换开始时的图形状态
+   */
+  private onMouseDownTransformHandle = (movement: EventArgs, entity: Entity) => {
+    const role = this._transformHandles.get(entity);
+    if (!role || !movement.position || this._status !== 'END') return;
+    const position = this.pickPosition(movement.position, movement.pick);
+    if (!position) return;
+    movement.stopPropagation?.();
+    const frame = this.getTransformFrame();
+    this._transformDrag = {
+      role,
+      frame,
+      start: toPolar(frame.origin, Cesium.Cartographic.fromCartesian(position)),
+    };
+    this._status = 'EDITING';
+    this.lockCamera();
+    this.updateLabel({ show: false });
+  }
+
+  /**
+   * 按拖拽的控制柄变换图形, 各点的距离和方位角沿大圆计算, 高纬度地区不会变形
+   * @param position 鼠标位置
+   */
+  private transformTo(position: Cartesian3) {
+    if (!this._transformDrag) return;
+    const { role, frame, start } = this._transformDrag;
+    const mouse = Cesium.Cartographic.fromCartesian(position);
+    let cartos: Cesium.Cartographic[];
+    if (role === 'move') {
+      cartos = frame.polars.map(polar => fromPolar(mouse, polar));
+    } else if (role === 'rotate') {
+      const angle = toPolar(frame.origin, mouse).bearing - start.bearing;
+      cartos = frame.polars.map(polar => fromPolar(frame.origin, { ...polar, bearing: polar.bearing + angle }));
+    } else {
+      // 以对角为基准缩放
+      const { minX, maxX, minY, maxY } = frame;
+      const [cornerX, anchorX] = role.includes('w') ? [minX, maxX] : [maxX, minX];
+      const [cornerY, anchorY] = role.includes('s') ? [minY, maxY] : [maxY, minY];
+      const { distance, bearing } = toPolar(frame.origin, mouse);
+      const scaleX = cornerX === anchorX
+        ? 1
+        : Math.max((distance * Math.sin(bearing) - anchorX) / (cornerX - anchorX), MIN_SCALE);
+      const scaleY = cornerY === anchorY
+        ? 1
+        : Math.max((distance * Math.cos(bearing) - anchorY) / (cornerY - anchorY), MIN_SCALE);
+      cartos = frame.polars.map(polar => {
+        const x = anchorX + (polar.distance * Math.sin(polar.bearing) - anchorX) * scaleX;
+        const y = anchorY + (polar.distance * Math.cos(polar.bearing) - anchorY) * scaleY;
+        return fromPolar(frame.origin, { distance: Math.hypot(x, y), bearing: Math.atan2(x, y), height: polar.height });
+      });
+    }
+    let offset = this._positions.length;
+    cartos.slice(0, offset).forEach((carto, index) => {
+      this.setPosition(index, Cesium.Cartographic.toCartesian(carto));
+    });
+    this._holes.forEach((hole, holeIndex) => {
+      hole.forEach((position, index) => {
+        this.setHolePosition(holeIndex, index, Cesium.Cartographic.toCartesian(cartos[offset + index]));
+      });
+      offset += hole.length;
+    });
+    this.refresh();
+    this.updateTransformHandles();
+  }
+
+  /**
+   * 结束变换, 触发一次坐标变化回调
+   */
+  private endTransformDrag() {
+    this._transformDrag = null;
+    this.unlockCamera();
+    this._status = 'END';
+    this.updateTransformHandles();
+    this.commitEdit();
+  }
+
+  /**
+   * 禁用相机操作
+   */
+  protected lockCamera() {
+    const controller = this._viewer.scene.screenSpaceCameraController;
+    this._enableInputs = controller.enableInputs;
+    controller.enableInputs = false;
+  }
+
+  /**
+   * 恢复相机操作
+   */
+  protected unlockCamera() {
+    this._viewer.scene.screenSpaceCameraController.enableInputs = this._enableInputs;
+  }
+
+  /**
+   * 由坐标串构建图形的Entity参数
+   * @param positions 动态坐标串, 其值为当前的positions数组
+   * @param holes 洞的多边形层次, 不支持洞的图形可忽略
+   */
+  protected abstract buildGeometry(positions: CallbackProperty, holes: CallbackProperty): Entity.ConstructorOptions;
+
+  /**
+   * 绘制图形
+   */
+  protected drawShape(positions: CallbackProperty) {
+    if (this._pointPrimitives) {
+      const shape = new PrimitiveShape(this._viewer, {
+        closed: this._closed,
+        clampToGround: this._options.pickMode !== 'ellipsoid',
+      });
+      this._shape = shape;
+      this.applyPrimitiveStyle(shape);
+      this.updateShape();
+      return shape;
+    }
+    const holes = new Cesium.CallbackProperty(() => this.getHoleHierarchies(), false);
+    const shape = this._viewer.entities.add(this.buildGeometry(positions, holes));
+    this._shape = shape;
+    this.applyShapeStyle(shape, this.getStyle());
+    this._viewer.scene.requestRender();
+    return shape;
+  }
+
+  /**
+   * 鼠标移动时改变活动点的位置和position坐标串
+   */
+  protected handleMouseMove = (movement: EventArgs) => {
+    if (!movement.endPosition) return;
+    if (this._touch) {
+      // 手指移动时取消长按, 触摸没有悬停, 只处理拖拽
+      if (this._longPress && Cesium.Cartesian2.distance(this._longPress.position, movement.endPosition) > this._mouseDelta) {
+        this.cancelLongPress();
+      }
+      if (this._dragIndex === null && !this._transformDrag) return;
+    }
+    // 绘制和拖拽时独占鼠标移动事件
+    if (this._status === 'START' || this._dragIndex !== null || this._transformDrag) movement.stopPropagation?.();
+    const picked = this.pickPosition(movement.endPosition, movement.pick);
+    // 绘制和拖拽点时进行吸附
+    const snapping = this._dragIndex !== null || this._status === 'START';
+    if (!snapping) this.showSnapIndicator(null);
+    const newPosition = snapping ? this.snapPosition(movement.endPosition, picked) : picked;
+
+    if (this._transformDrag) {
+      if (newPosition) this.transformTo(newPosition);
+      return;
+    }
+    if (this._dragIndex !== null) {
+      if (newPosition) this.dragTo(newPosition);
+      return;
+    }
+    if (this._holeDraft) {
+      if (newPosition) this.moveHoleDraft(newPosition);
+      return;
+    }
+
+    // 鼠标移过可编辑的点时改变点的属性
+    if (this._status === 'END') {
+      const entity = this.pickEntity(movement, movement.endPosition, (item): item is VertexHandle => this.isVertex(item));
+      if (this._hoveredPoint && this._hoveredPoint !== entity) {
+        this.setPointState(this._hoveredPoint, 'point');
+        this._hoveredPoint = null;
+        this.updateLabel({
+          show: false
+        })
+        this._tools.setCursor(this);
+      }
+      if (!this._hoveredPoint && !this._transforming && this.isVertex(entity)) {
+        this._hoveredPoint = entity;
+        this.setPointState(entity, 'hoverPoint');
+        this.updateLabel({
+          position: newPosition,
+          text: [this._tips.edit, this.getKeyTip(['remove'])].filter(Boolean).join('\n'),
+          tipKey: 'edit',
+          show: true
+        })
+        this._tools.setCursor(this, 'pointer');
+      }
+      return;
+    }
+
+    this.moveActivePoint(newPosition);
+  }
+
+  /**
+   * 绘制时移动活动点
+   * @param position 新的位置
+   */
+  private moveActivePoint(position: Cartesian3 | undefined) {
+    if (!this._activePoint) return;
+    if (position) this.setHandlePosition(this._activePoint, position);
+    const index = this._pointGeometry.indexOf(this._activePoint);
+    if (this._positions.length >= 2 && position) {
+      this._positions.splice(index, 1, position);
+    }
+    this.refresh();
+    this.updateLabel({
+      position,
+      text: this.getTipText(),
+      tipKey: this.getTipKey(),
+    })
+    this._viewer.scene.requestRender();
+  }
+
+  /**
+   * 触摸模式下的单击: 点击首个点时完成绘制, 否则先将活动点移到点击位置再添加点
+   * @returns {boolean} 是否继续添加点
+   */
+  private handleTap(movement: EventArgs) {
+    if (this._suppressClick) {
+      this._suppressClick = false;
+      return false;
+    }
+    if (!movement.position || this._status !== 'START') return false;
+    if (this.isFinishTap(movement.position)) {
+      this.endDraw();
+      return false;
+    }
+    const position = this.snapPosition(movement.position, this.pickPosition(movement.position, movement.pick));
+    if (!position) return false;
+    if (this._holeDraft) {
+      this.moveHoleDraft(position);
+    } else {
+      this.moveActivePoint(position);
+    }
+    return true;
+  }
+
+  /**
+   * 是否点击了完成绘制的点: 闭合图形和洞为首个点, 线为最后一个点
+   * @param windowPosition 点击的屏幕坐标
+   */
+  private isFinishTap(windowPosition: Cartesian2) {
+    const draft = this._holeDraft;
+    const ring = draft ? draft.positions.slice(0, draft.points.length) : this.getFixedPositions();
+    if (ring.length < (draft ? 3 : this._minPointNum)) return false;
+    const target = draft || this._closed ? ring[0] : ring[ring.length - 1];
+    const window = Cesium.SceneTransforms.worldToWindowCoordinates(this._viewer.scene, target);
+    return !!window && Cesium.Cartesian2.distance(window, windowPosition) <= TAP_TOLERANCE;
+  }
+
+  /**
+   * 触摸模式下按下时开始计时, 长按完成绘制
+   */
+  private handleTouchDown = (movement: EventArgs) => {
+    this._suppressClick = false;
+    this.cancelLongPress();
+    if (!this._touch || this._status !== 'START' || !movement.position) return;
+    this._longPress = {
+      position: Cesium.Cartesian2.clone(movement.position),
+      timer: window.setTimeout(() => {
+        this._longPress = null;
+        if (this.endDraw()) this._suppressClick = true;
+      }, LONG_PRESS_DELAY),
+    };
+  }
+
+  private cancelLongPress() {
+    if (!this._longPress) return;
+    window.clearTimeout(this._longPress.timer);
+    this._longPress = null;
+  }
+
+  /**
+   * 双指手势交给相机, 取消长按并结束拖拽
+   */
+  private handlePinchStart = () => {
+    this.cancelLongPress();
+    if (this._dragIndex !== null || this._transformDrag) this.handleMouseUp();
+  }
+
+  /**
+   * 鼠标左键监听事件,点击添加点和坐标,并设置新的活动点
+   */
+  protected handleMouseLeftClick = (movement: EventArgs) => {
+    if (this._status === 'START') movement.stopPropagation?.();
+    if (this._touch && !this.handleTap(movement)) return;
+    if (this._holeDraft) {
+      this.addHolePoint(movement);
+      return;
+    }
+    if (!movement.position || !this._activePoint) return;
+    const cartesian = this.snapPosition(movement.position, this.pickPosition(movement.position, movement.pick));
+    if (!cartesian || !Cesium.defined(cartesian)) return;
+    // 如果最近两个点的距离过小则return
+    if (this._lastClickPosition && Cesium.Cartesian2.magnitude(Cesium.Cartesian2.subtract(this._lastClickPosition, movement.position, {} as any)) < this._mouseDelta) return;
+
+    const index = this._pointGeometry.indexOf(this._activePoint);
+    const pointGeo = this.drawPoint(cartesian);
+    this.setPointState(this._activePoint, 'point');
+    this._activePoint = pointGeo;
+    this._pointGeometry.splice(index + 1, 0, pointGeo);
+    this._positions.splice(index + 1, 0, cartesian);
+    Cesium.Cartesian2.clone(movement.position, this._lastClickPosition)
+    this.emitVertex('vertexAdd', index, cartesian);
+
+    if (this._positions.length === 1) {
+      this._positions.push(cartesian);
+      const dynamicPositions = new Cesium.CallbackProperty(
+        () => this._positions,
+        false
+      )
+      this.removeShape();
+      this.drawShape(dynamicPositions);//绘制动态图
+    }
+    this.updateLabel();
+    this.handlePosChange();
+    // 点数已满则自动完成绘制, 图形无效时撤回刚添加的点
+    if (this._positions.length > this._maxPointNum) {
+      if (!this.endDraw()) this.removeOnePosition(index);
+    } else {
+      this.recordHistory();
+    }
+  }
+
+  /**
+   * 设置额外的吸附目标
+   * @param targets Entity或数据源
+   */
+  setSnapTargets(targets: (Entity | DataSource)[]) {
+    const { snap } = this._options;
+    this._options.snap = { ...(typeof snap === 'object' ? snap : {}), targets };
+  }
+
+  /**
+   * 对拾取的位置进行吸附: 优先吸附到其他图形和吸附目标的顶点、边, 否则按住Shift时约束角度
+   * @param windowPosition 屏幕坐标
+   * @param position 拾取的位置
+   */
+  protected snapPosition(windowPosition: Cartesian2, position: Cartesian3 | undefined) {
+    const { snap } = this._options;
+    if (!snap) return position;
+    const options = snap === true ? {} : snap;
+    const time = this._viewer.clock.currentTime;
+    const entities = [...this._shapes.values()]
+      .map(stored => stored.entity)
+      .filter((entity): entity is Entity => !!entity);
+    const rings = targetRings([...entities, ...(options.targets ?? [])], time);
+    const result = findSnap(this._viewer.scene, windowPosition, rings, options);
+    this.showSnapIndicator(result);
+    if (result) return result.position;
+    if (this._shiftKey && position) return this.constrainAngle(position, options.angle ?? 90);
+    return position;
+  }
+
+  /**
+   * 显示吸附指示点, 顶点和边的吸附以颜色区分
+   * @param result 吸附结果, 为null时隐藏
+   */
+  private showSnapIndicator(result: SnapResult | null) {
+    if (!result) {
+      if (this._snapIndicator?.show) {
+        this._snapIndicator.show = false;
+        this._viewer.scene.requestRender();
+      }
+      return;
+    }
+    if (!this._snapIndicator) {
+      this._snapIndicator = this._viewer.entities.add({
+        position: new Cesium.ConstantPositionProperty(),
+        point: {
+          pixelSize: 14,
+          color: Cesium.Color.TRANSPARENT,
+          outlineWidth: 3,
+          disableDepthTestDistance: Number.POSITIVE_INFINITY,
+        },
+      });
+    }
+    const indicator = this._snapIndicator;
+    (indicator.position as any).setValue(result.position);
+    if (indicator.point) {
+      indicator.point.outlineColor = new Cesium.ConstantProperty(
+        result.type === 'vertex' ? Cesium.Color.MAGENTA : Cesium.Color.CYAN
+      );
+    }
+    indicator.show = true;
+    this._viewer.scene.requestRender();
+  }
+
+  /**
+   * 角度约束的基准点和上一个点: 绘制时为上一个点, 拖拽时为前一个相邻点
+   */
+  private getAngleAnchor(): [Cartesian3, Cartesian3 | undefined] | null {
+    let ring: Cartesian3[];
+    let index: number;
+    let closed = false;
+    if (this._holeDraft) {
+      ring = this._holeDraft.positions;
+      index = this._holeDraft.points.length;
+    } else if (this._dragIndex !== null) {
+      ring = this._dragHole === null ? this._positions : this._holes[this._dragHole];
+      index = this._dragIndex;
+      closed = this._dragHole !== null || this._closed;
+    } else if (this._status === 'START' && this._activePoint) {
+      ring = this._positions;
+      index = this._pointGeometry.indexOf(this._activePoint);
+    } else {
+      return null;
+    }
+    const at = (offset: number) => {
+      const i = index - offset;
+      if (i >= 0) return ring[i];
+      return closed && ring.length > offset + 1 ? ring[i + ring.length] : undefined;
+    };
+    const anchor = at(1);
+    return anchor ? [anchor, at(2)] : null;
+  }
+
+  /**
+   * 约束上一条边与当前边的夹角为指定角度的整数倍, 没有上一条边时约束方位角
+   * @param position 鼠标位置
+   * @param angle 约束的角度
+   */
+  private constrainAngle(position: Cartesian3, angle: number) {
+    const anchor = this.getAngleAnchor();
+    if (!anchor) return position;
+    const origin = Cesium.Cartographic.fromCartesian(anchor[0]);
+    const target = toPolar(origin, Cesium.Cartographic.fromCartesian(position));
+    const reference = anchor[1] ? toPolar(origin, Cesium.Cartographic.fromCartesian(anchor[1])).bearing : 0;
+    const step = Cesium.Math.toRadians(angle);
+    const bearing = reference + Math.round((target.bearing - reference) / step) * step;
+    // 鼠标位置投影到约束的方向上
+    const distance = Math.max(target.distance * Math.cos(target.bearing - bearing), 0);
+    return Cesium.Cartographic.toCartesian(fromPolar(origin, { distance, bearing, height: target.height }));
+  }
+
+  /**
+   * 按选点方式拾取屏幕坐标对应的位置, 未拾取到时依次回退到 globe 和 ellipsoid
+   * @param windowPosition 屏幕坐标
+   * @param pick 拾取屏幕坐标处的对象, 默认调用 scene.pick, 鼠标事件中传入 movement.pick 以共用拾取结果
+   */
+  protected pickPosition(windowPosition: Cartesian2, pick?: () => any) {
+    const { scene, camera } = this._viewer;
+    const { pickMode } = this._options;
+    let cartesian: Cartesian3 | undefined;
+    if (pickMode === 'scene' && scene.pickPositionSupported) {
+      // 鼠标位于绘制的点或图形上时, 拾取到的深度不可用
+      const picked = pick ? pick() : scene.pick(windowPosition);
+      if (!this.isOwnEntity(picked?.id)) cartesian = scene.pickPosition(windowPosition);
+    }
+    if (!cartesian && pickMode !== 'ellipsoid') {
+      const ray = camera.getPickRay(windowPosition);
+      if (ray) cartesian = scene.globe.pick(ray, scene);
+    }
+    return cartesian ?? camera.pickEllipsoid(windowPosition, scene.globe.ellipsoid);
+  }
+
+  /**
+   * 拾取鼠标下符合条件的Entity或控制点, 最上层为绘制工具的其他对象时用 drillPick 查找被遮挡的对象, 如重叠的控制点
+   * @param movement 鼠标事件
+   * @param windowPosition 屏幕坐标
+   * @param filter 条件
+   */
+  protected pickEntity<T>(movement: EventArgs, windowPosition: Cartesian2, filter: (entity: any) => entity is T): T | undefined {
+    const { scene } = this._viewer;
+    const picked = movement.pick ? movement.pick() : scene.pick(windowPosition);
+    if (filter(picked?.id)) return picked.id;
+    if (!this.isOwnEntity(picked?.id)) return undefined;
+    const stacked = movement.drillPick ? movement.drillPick(DRILL_PICK_LIMIT) : scene.drillPick(windowPosition, DRILL_PICK_LIMIT);
+    return stacked.map(item => item?.id).find(filter);
+  }
+
+  /**
+   * 是否为绘制工具创建的Entity
+   */
+  protected isOwnEntity(entity: any) {
+    return !!entity && (
+      entity === this._shape ||
+      [...this._shapes.values()].some(stored => stored.entity === entity) ||
+      this.isVertex(entity) ||
+      this._midpoints.includes(entity) ||
+      this._holeMidpoints.some(handles => handles.includes(entity)) ||
+      this._transformHandles.has(entity) ||
+      !!this._holeDraft?.points.includes(entity) ||
+      entity === this._holeDraft?.active ||
+      (!!this._snapIndicator && entity === this._snapIndicator)
+    );
+  }
+
+  /**
+   * 是否为外环或洞的控制点
+   */
+  private isVertex(entity: any): entity is VertexHandle {
+    return this._pointGeometry.indexOf(entity) !== -1 || this._holePoints.some(points => points.includes(entity));
+  }
+
+  /**
+   * 经纬度[高度]转cesium坐标
+   * @param pos [lon, lat, height?]
+   */
+  protected lonlat2cartesian(pos: number[]) {
+    return Cesium.Cartesian3.fromDegrees(pos[0], pos[1], pos[2] ?? 0);
+  }
+
+  /**
+   * 添加一个点
+   * @param index 点的下标
+   * @param pos 点的经纬度[高度]
+   */
+  addOnePosition = (index: number, pos: number[]) => {
+    if (!Array.isArray(pos)) return false;
+    this.insertPosition(index, this.lonlat2cartesian(pos));
+    this.recordHistory();
+    return true;
+  }
+
+  /**
+   * 插入一个可编辑的点
+   * @param index 点的下标
+   * @param position cesium坐标
+   */
+  protected insertPosition(index: number, position: Cartesian3) {
+    const pointGeo = this.drawPoint(position);
+    this.setPointState(pointGeo, 'point');
+    this._subscriber.add(pointGeo, this.onMouseDownPoint, 'LEFT_DOWN');
+    this._positions.splice(index, 0, position);
+    this._pointGeometry.splice(index, 0, pointGeo);
+    this.updateMidpoints();
+    this.emitVertex('vertexAdd', index, position);
+    this.handlePosChange();
+    this._viewer.scene.requestRender();
+  }
+
+  /**
+   * 改变一个点的坐标信息
+   * @param index 点下标
+   * @param pos 位置[经纬度, 高度]
+   * @returns boolean
+   */
+  changeOnePosition = (index: number, pos: number[]) => {
+    if (!Array.isArray(pos)) return false;
+    const position = this.lonlat2cartesian(pos);
+    this.setPosition(index, position);
+    this.emitVertex('vertexMove', index, position);
+    // 编辑状态下与拖拽结束一样校验并触发回调
+    if (this._status === 'END') return this.commitEdit();
+    this.recordHistory();
+    // 与拖拽一样刷新中点、测量标签和校验结果, 并通知坐标变化
+    this.handlePosChange();
+    return true;
+  }
+
+  /**
+   * 修改一个点的坐标, 不记录操作历史
+   * @param index 点下标
+   * @param position cesium坐标
+   */
+  protected setPosition(index: number, position: Cartesian3) {
+    this._positions[index] = position;
+    const handle = this._pointGeometry[index];
+    if (handle) this.setHandlePosition(handle, position);
+    this._viewer.scene.requestRender();
+  }
+
+  /**
+   * 移除一个点
+   * @param index 点的下标
+   * @returns {boolean} 是否移除成功
+   */
+  removeOnePosition = (index: number) => {
+    const length = this._positions.length
+    // 若点的数量小于3,则不能移除
+    if (length <= 2) return false;
+    const pointGeo = this._pointGeometry[index];
+    this._subscriber.remove(pointGeo, 'LEFT_DOWN');
+    this.removeHandle(pointGeo);
+    const [position] = this._positions.splice(index, 1);
+    this._pointGeometry.splice(index, 1);
+    this.updateMidpoints();
+    this.emitVertex('vertexRemove', index, position);
+    this._viewer.scene.requestRender();
+    if (this._status === 'END') return this.commitEdit();
+    this.recordHistory();
+    this.handlePosChange();
+    return true;
+   }
+
+  /**
+   * 将一个点设置为活动点
+   * @param index 点的下标
+   */
+  activeOnePosition = (index: number) => {
+    const pointGeo = this._pointGeometry[index];
+    this._activePoint = pointGeo;
+    this.setPointState(this._activePoint, 'activePoint');
+    this.updateLabel();
+    this._viewer.scene.requestRender();
+  }
+
+  /**
+   * 开始在已完成的图形内绘制洞, 单击添加点, 右键取消上一个点, 双击完成
+   * @returns {boolean} 是否开始成功
+   */
+  startHole() {
+    if (!this._holeEnabled || this._status !== 'END' || this._positions.length < this._minPointNum) return false;
+    this.stopTransform();
+    this._holeDraft = {
+      positions: [],
+      points: [],
+      active: this.drawPoint(new Cesium.Cartesian3()),
+    };
+    this._status = 'START';
+    this._lastClickPosition = new Cesium.Cartesian2(Number.POSITIVE_INFINITY, Number.POSITIVE_INFINITY);
+    this.updateMidpoints();
+    this.updateLabel();
+    return true;
+  }
+
+  /**
+   * 取消正在绘制的洞
+   */
+  cancelHole() {
+    if (!this._holeDraft) return;
+    this.removeHoleDraft();
+    // 放弃的洞不能再通过重做恢复
+    let removed = false;
+    while (this._history[this._historyIndex]?.holeDraft) {
+      this._history.splice(this._historyIndex);
+      this._historyIndex--;
+      removed = true;
+    }
+    if (removed) this.handleHistoryChange();
+    this._status = 'END';
+    this.emit('cancel', { hole: true });
+    this.updateMidpoints();
+    this.updateLabel();
+    this._viewer.scene.requestRender();
+  }
+
+  /**
+   * 移除正在绘制的洞的点, 不触发事件
+   */
+  private removeHoleDraft() {
+    const draft = this._holeDraft;
+    if (!draft) return;
+    [...draft.points, draft.active].forEach(entity => this.removeHandle(entity));
+    this._holeDraft = null;
+  }
+
+  /**
+   * 恢复正在绘制的洞
+   * @param positions 洞已添加的点
+   */
+  private restoreHoleDraft(positions: Cartesian3[]) {
+    if (!this.startHole()) return;
+    const draft = this._holeDraft!;
+    positions.forEach(position => {
+      const pointGeo = this.drawPoint(position);
+      this.setPointState(pointGeo, 'point');
+      draft.points.push(pointGeo);
+    });
+    const last = positions[positions.length - 1];
+    if (!last) return;
+    draft.positions = [...positions, last.clone()];
+    this.setHandlePosition(draft.active, last);
+  }
+
+  /**
+   * 鼠标移动时改变正在绘制的洞的活动点
+   */
+  private moveHoleDraft(position: Cartesian3) {
+    const draft = this._holeDraft;
+    if (!draft) return;
+    this.setHandlePosition(draft.active, position);
+    if (draft.points.length) draft.positions.splice(draft.points.length, 1, position);
+    this.refresh();
+    this.updateLabel({
+      position,
+      text: this.getTipText(),
+      tipKey: this.getTipKey(),
+    });
+    this._viewer.scene.requestRender();
+  }
+
+  /**
+   * 为正在绘制的洞添加一个点, 点必须位于外环内
+   */
+  private addHolePoint(movement: EventArgs) {
+    const draft = this._holeDraft;
+    if (!draft || !movement.position) return;
+    const cartesian = this.snapPosition(movement.position, this.pickPosition(movement.position, movement.pick));
+    if (!cartesian) return;
+    if (Cesium.Cartesian2.distance(this._lastClickPosition, movement.position) < this._mouseDelta) return;
+    if (!isPointInRing(cartesian, this._positions)) return;
+
+    const pointGeo = this.drawPoint(cartesian);
+    this.setPointState(pointGeo, 'point');
+    draft.positions.splice(draft.points.length, 1, cartesian, cartesian.clone());
+    draft.points.push(pointGeo);
+    Cesium.Cartesian2.clone(movement.position, this._lastClickPosition);
+    this.emitVertex('vertexAdd', draft.points.length - 1, cartesian, this._holes.length);
+    this.recordHistory();
+    this.updateLabel();
+  }
+
+  /**
+   * 取消正在绘制的洞的上一个点
+   */
+  private removeHolePoint() {
+    const draft = this._holeDraft;
+    const pointGeo = draft?.points.pop();
+    if (!draft || !pointGeo) return;
+    this.removeHandle(pointGeo);
+    const [position] = draft.positions.splice(draft.points.length, 1);
+    if (!draft.points.length) draft.positions.length = 0;
+    this.emitVertex('vertexRemove', draft.points.length, position, this._holes.length);
+    this.recordHistory();
+    this.updateLabel();
+    this._viewer.scene.requestRender();
+  }
+
+  /**
+   * 完成洞的绘制, 点数不足或洞不完全位于外环内时不结束绘制
+   * @returns boolean
+   */
+  private endHole() {
+    const draft = this._holeDraft;
+    if (!draft) return false;
+    const positions = draft.positions.slice(0, draft.points.length);
+    if (positions.length < 3 || !isRingInRing(positions, this._positions)) return false;
+
+    this.removeHandle(draft.active);
+    this._holeDraft = null;
+    this._holes.push(positions);
+    this._holePoints.push(draft.points);
+    this._subscriber.add(draft.points, this.onMouseDownHolePoint, 'LEFT_DOWN');
+    this._status = 'END';
+    this.updateMidpoints();
+    this.updateLabel();
+    this.recordHistory();
+    this.handlePosChange();
+    this.handleCallback();
+    return true;
+  }
+
+  /**
+   * 添加一个可编辑的洞
+   * @param positions 洞的坐标串
+   */
+  private addHole(positions: Cartesian3[]) {
+    const points = positions.map(position => {
+      const pointGeo = this.drawPoint(position);
+      this.setPointState(pointGeo, 'point');
+      return pointGeo;
+    });
+    this._subscriber.add(points, this.onMouseDownHolePoint, 'LEFT_DOWN');
+    this._holes.push(positions);
+    this._holePoints.push(points);
+  }
+
+  /**
+   * 移除所有的洞, 包括正在绘制的洞
+   */
+  private clearHoles() {
+    this.removeHoleDraft();
+    this._holePoints.forEach(points => {
+      this._subscriber.remove(points, 'LEFT_DOWN');
+      points.forEach(entity => this.removeHandle(entity));
+    });
+    this._holes = [];
+    this._holePoints = [];
+  }
+
+  /**
+   * 在洞中插入一个可编辑的点
+   * @param hole 洞的下标
+   * @param index 点的下标
+   * @param position cesium坐标
+   */
+  private insertHolePosition(hole: number, index: number, position: Cartesian3) {
+    const pointGeo = this.drawPoint(position);
+    this.setPointState(pointGeo, 'point');
+    this._subscriber.add(pointGeo, this.onMouseDownHolePoint, 'LEFT_DOWN');
+    this._holes[hole].splice(index, 0, position);
+    this._holePoints[hole].splice(index, 0, pointGeo);
+    this.updateMidpoints();
+    this.emitVertex('vertexAdd', index, position, hole);
+    this._viewer.scene.requestRender();
+  }
+
+  /**
+   * 修改洞的一个点的坐标, 不记录操作历史
+   * @param hole 洞的下标
+   * @param index 点下标
+   * @param position cesium坐标
+   */
+  protected setHolePosition(hole: number, index: number, position: Cartesian3) {
+    if (!this._holes[hole]) return;
+    this._holes[hole][index] = position;
+    const handle = this._holePoints[hole][index];
+    if (handle) this.setHandlePosition(handle, position);
+    this._viewer.scene.requestRender();
+  }
+
+  /**
+   * 移除洞的一个点, 洞至少保留3个点
+   * @param hole 洞的下标
+   * @param index 点的下标
+   * @returns {boolean} 是否移除成功
+   */
+  removeHolePosition = (hole: number, index: number) => {
+    const points = this._holePoints[hole];
+    if (!points?.[index] || points.length <= 3 || this._status !== 'END') return false;
+    this._subscriber.remove(points[index], 'LEFT_DOWN');
+    this.removeHandle(points[index]);
+    points.splice(index, 1);
+    const [position] = this._holes[hole].splice(index, 1);
+    this.updateMidpoints();
+    this.emitVertex('vertexRemove', index, position, hole);
+    this._viewer.scene.requestRender();
+    return this.commitEdit();
+  }
+
+  /**
+   * 移除一个洞
+   * @param hole 洞的下标
+   * @returns {boolean} 是否移除成功
+   */
+  removeHole = (hole: number) => {
+    const points = this._holePoints[hole];
+    if (!points || this._status !== 'END') return false;
+    this._subscriber.remove(points, 'LEFT_DOWN');
+    points.forEach(entity => this.removeHandle(entity));
+    this._holePoints.splice(hole, 1);
+    this._holes.splice(hole, 1);
+    this.updateMidpoints();
+    this._viewer.scene.requestRender();
+    return this.commitEdit();
+  }
+
+  // 右键取消上一个点
+  protected handleMouseRightClick = (movement: EventArgs) => {
+    if (this._status === 'START') movement.stopPropagation?.();
+    if (this._holeDraft) {
+      this.removeHolePoint();
+      return;
+    }
+    if (!this._activePoint) return;
+    const index = this._pointGeometry.indexOf(this._activePoint);
+    if (index <= 0) return;
+    this.removeOnePosition(index - 1)
+    this.updateLabel();
+  }
+
+  /**
+   * 开始绘制
+   */
+  start() {
+    this.park();
+    this._pointGeometry = [];
+    const position = this._positions[1] ?? new Cesium.Cartesian3();
+    const firstPoint = this.drawPoint(position);
+    this._positions.length = 0;
+    this._pointGeometry.push(firstPoint);
+    this._activePoint = firstPoint;
+    this._properties = {};
+    this._shapeStyle = {};
+    this.registerEvents();
+    this.updateLabel();
+    this._status = 'START';
+    this.focusCanvas();
+    this.resetHistory();
+    this.emit('start', {});
+    this.handlePosChange();
+  }
+
+  /**
+   * 激活绘制工具并注册绘制和编辑所需的鼠标事件, 激活期间暂停viewer原生的双击事件
+   */
+  private registerEvents() {
+    this._tools.activate(this, { natives: ['LEFT_DOUBLE_CLICK'] });
+    if (this._events.length !== 0) return;
+    const startId = this._subscriber.addExternal(this.handleMouseLeftClick, 'LEFT_CLICK');
+    const moveId = this._subscriber.addExternal(this.handleMouseMove, 'MOUSE_MOVE');
+    const cancelId = this._subscriber.addExternal(this.handleMouseRightClick, 'RIGHT_CLICK');
+    const endId = this._subscriber.addExternal(this.handleMouseDoubleClick, 'LEFT_DOUBLE_CLICK');
+    const upId = this._subscriber.addExternal(this.handleMouseUp, 'LEFT_UP');
+    const focusId = this._subscriber.addExternal(this.focusCanvas, 'LEFT_DOWN');
+    const touchId = this._subscriber.addExternal(this.handleTouchDown, 'LEFT_DOWN');
+    const pinchId = this._subscriber.addExternal(this.handlePinchStart, 'PINCH_START');
+
+    this._events = [startId, moveId, cancelId, endId, upId, focusId, touchId, pinchId];
+  }
+
+  /**
+   * 左键双击完成绘制
+   */
+  private handleMouseDoubleClick = (movement: EventArgs) => {
+    if (this._status === 'START') movement.stopPropagation?.();
+    this.endDraw();
+  }
+
+  /**
+   * 点击地图时canvas获得焦点, 以接收快捷键
+   */
+  private focusCanvas = () => {
+    if (this._keys && document.activeElement !== this._viewer.canvas) {
+      this._viewer.canvas.focus({ preventScroll: true });
+    }
+  }
+
+  /**
+   * 加载坐标串并进入编辑状态
+   * @param positions 控制点坐标串
+   * @param holes 洞的坐标串
+   * @returns {boolean} 是否加载成功
+   */
+  protected load(positions: Cartesian3[], holes: Cartesian3[][] = []) {
+    if (positions.length < this._minPointNum) return false;
+    this.stop();
+    this.registerEvents();
+    this.restore({ positions, holes, status: 'END' });
+    this.resetHistory();
+    return true;
+  }
+
+  /**
+   * 导出GeoJSON要素, 多边形的环首尾闭合, 洞作为内环输出
+   * @returns Feature, 没有当前图形或图形未完成时返回null
+   */
+  toGeoJSON(): Feature | null {
+    // 移除或停用后 _positions 仍保留上一个图形的坐标
+    if (!this._currentId) return null;
+    const positions = this.getFixedPositions();
+    if (positions.length < this._minPointNum) return null;
+    return this.toFeature(positions, this._holes, this._properties, this._currentId);
+  }
+
+  private toFeature(positions: Cartesian3[], holes: Cartesian3[][], properties: Record<string, any>, id: string | null) {
+    const coors = this.toCoordinates(positions);
+    const holeCoors = holes.map(hole => closeRing(hole.map(this.cartesian2lonlat)));
+    const feature: Feature = {
+      type: 'Feature',
+      geometry: this._closed
+        ? { type: 'Polygon', coordinates: [closeRing(coors), ...holeCoors] }
+        : { type: 'LineString', coordinates: coors },
+      properties: { ...properties },
+    };
+    if (id) feature.id = id;
+    return feature;
+  }
+
+  /**
+   * 导入GeoJSON要素作为新的图形, 要素有id时作为图形id, 不支持洞的图形只导入外环.
+   * 要素集合的每个要素和多部件几何的每个部件都存入图形集合, 最后一个图形进入编辑状态
+   * @param geojson Feature | FeatureCollection
+   * @returns {boolean} 是否导入成功, 有要素无法导入时不导入任何图形并返回false
+   */
+  fromGeoJSON(geojson: Feature | FeatureCollection) {
+    const parsed = toFeatures(geojson).map(feature => this.parseFeature(feature));
+    if (parsed.some(parts => !parts)) return false;
+    const shapes = parsed.flatMap(parts => parts!);
+    const current = shapes.pop();
+    if (!current) return false;
+    this.park();
+    shapes.forEach(({ id, positions, holes, properties }) => {
+      this.removeStoredShape(id);
+      this._shapes.set(id, { positions, holes, properties, style: {}, entity: null });
+      this.showStored(id);
+    });
+    this.removeStoredShape(current.id);
+    this._currentId = current.id;
+    this._properties = current.properties;
+    this._shapeStyle = {};
+    if (!this.load(current.positions, current.holes)) return false;
+    this.storeCurrent();
+    return true;
+  }
+
+  /**
+   * 解析要素的坐标, 多部件几何的每个部件为一个图形, 有部件的点数不足或几何不支持时返回null
+   * @param feature GeoJSON要素
+   */
+  private parseFeature(feature: Feature) {
+    const parts = feature?.geometry && geometryParts(feature.geometry);
+    if (!parts?.length) return null;
+    const { accuracy } = this._options;
+    const round = (ring: number[][]) => openRing(ring).map(coor => coor.map((value, index) => (
+      // 经纬度按精度取舍, 高度原样保留
+      index < 2 ? +value.toFixed(accuracy) : value
+    )));
+    const shapes = parts.map(([coors, ...holeCoors], index) => {
+      const positions = coors ? this.fromCoordinates(round(coors)) : [];
+      const holes = this._holeEnabled
+        ? holeCoors.map(hole => round(hole).map(coor => this.lonlat2cartesian(coor))).filter(hole => hole.length >= 3)
+        : [];
+      // 多部件几何的部件id为 要素id-部件下标
+      const id = feature.id === undefined
+        ? Cesium.createGuid()
+        : parts.length > 1 ? `${feature.id}-${index}` : String(feature.id);
+      return { id, positions, holes, properties: { ...feature.properties } };
+    });
+    return shapes.every(shape => shape.positions.length >= this._minPointNum) ? shapes : null;
+  }
+
+  /**
+   * 导出WKT, 如 POLYGON((120 30,121 30,121 31,120 30))
+   * @returns WKT字符串, 没有当前图形或图形未完成时返回null
+   */
+  toWKT() {
+    const feature = this.toGeoJSON();
+    return feature?.geometry ? stringifyWKT(feature.geometry) : null;
+  }
+
+  /**
+   * 导入WKT并进入编辑状态, 多部件几何的每个部件存入图形集合, 不支持洞的图形只导入外环
+   * @param wkt WKT字符串
+   * @returns {boolean} 是否导入成功, WKT无法解析时返回false
+   */
+  fromWKT(wkt: string) {
+    let geometry;
+    try {
+      geometry = parseWKT(wkt);
+    } catch {
+      return false;
+    }
+    return this.fromGeoJSON({ type: 'Feature', geometry, properties: null });
+  }
+
+  protected removeShape = () => {
+    if (this._shape instanceof PrimitiveShape) {
+      this._shape.destroy();
+    } else if (this._shape) {
+      this._viewer.entities.remove(this._shape);
+    }
+    this._shape = null;
+    this._validMaterial = undefined;
+    this.refresh();
+  }
+
+  /**
+   * 停止绘制
+   * @param removePoint 是否移除控制点,默认true
+   */
+  protected stop(removePoint: boolean = true) {
+    this.stopTransform();
+    this.cancelHole();
+    this.showSnapIndicator(null);
+    if (removePoint) {
+      this._subscriber.remove(this._pointGeometry, 'LEFT_DOWN');
+      this._pointGeometry.map(entity => {
+        this.removeHandle(entity);
+      })
+      this._pointGeometry = [];
+      this.clearHoles();
+    }
+
+    // 去除最后的活动点
+    if (this._activePoint) {
+      const index = this._pointGeometry.indexOf(this._activePoint);
+      if (this._activePoint) this.removeHandle(this._activePoint);
+      this._pointGeometry.splice(index, 1)
+      this._activePoint = null;
+    }
+
+    if (this._dragIndex !== null) {
+      this._dragIndex = null;
+      this._dragHole = null;
+      this.unlockCamera();
+    }
+    // 只有保留了图形才进入完成状态, 放弃未完成的绘制时回到初始状态
+    if (this._status === 'EDITING' || (this._status === 'START' && !removePoint)) {
+      this._status = 'END';
+    } else if (this._status === 'START') {
+      this._status = 'INIT';
+    }
+    this.updateMidpoints();
+    this._lastClickPosition = new Cesium.Cartesian2(Number.POSITIVE_INFINITY, Number.POSITIVE_INFINITY);
+    this._viewer.scene.requestRender();
+    return true;
+  }
+
+
+  /**
+   * cesium坐标转经纬度
+   * @param cartesian
+   * @returns [lon, lat], 选点方式不为 ellipsoid 时为 [lon, lat, height]
+   */
+  cartesian2lonlat = (cartesian: Cartesian3) => {
+    if (!cartesian) return [];
+    const { accuracy, pickMode } = this._options;
+    //将笛卡尔三维坐标转为地图坐标（弧度）
+    const cartographic = this._viewer.scene.globe.ellipsoid.cartesianToCartographic(cartesian);
+    //将地图坐标（弧度）转为十进制的度数
+    const lon = +Cesium.Math.toDegrees(cartographic.longitude).toFixed(accuracy);
+    const lat = +Cesium.Math.toDegrees(cartographic.latitude).toFixed(accuracy);
+    if (pickMode === 'ellipsoid') return [lon, lat];
+    return [lon, lat, +cartographic.height.toFixed(3)];
+  }
+
+  /**
+   * 结束绘制
+   * @returns boolean
+   */
+  protected endDraw = () => {
+    if (this._holeDraft) return this.endHole();
+    if (!this._activePoint) return false;
+
+    // 点数不足时不结束绘制
+    if (this._positions.length - 1 < this._minPointNum) return false;
+
+    // 图形无效时拒绝结束绘制
+    const fixed = this.getFixedPositions();
+    const reason = this.validate(fixed);
+    if (reason) {
+      this._options.invalid?.(reason, this.toCoordinates(fixed));
+      return false;
+    }
+
+    // 去除最后的活动点
+    const index = this._pointGeometry.indexOf(this._activePoint);
+    this._positions.splice(index, 1);
+
+    this.stop(false);
+    // 去除活动点后重新校验并更新测量标签, 避免保留鼠标所在边的显示
+    this.refresh();
+    if (this._options.retainGeo === false) {
+      this.removeShape();
+    }
+    this._subscriber.add(this._pointGeometry, this.onMouseDownPoint, 'LEFT_DOWN');
+    if (!this._currentId) this._currentId = Cesium.createGuid();
+    this.storeCurrent();
+    if (!this._options.once) {
+      // 保存当前图形后继续绘制下一个
+      this.handleCallback();
+      this.start();
+      return true;
+    }
+    this.recordHistory();
+    this.handleCallback();
+    this.updateLabel();
+    this.afterDrawEnd();
+    return true;
+  }
+
+  /**
+   * 绘制结束后的钩子, 子类可重写以添加额外的编辑控制
+   */
+  protected afterDrawEnd() {}
+
+  /**
+   * 记录当前坐标串到操作历史
+   */
+  protected recordHistory() {
+    const draft = this._holeDraft;
+    // 绘制洞时外环已完成
+    const status = this._status === 'START' && !draft ? 'START' : 'END';
+    const positions = this.getFixedPositions().map(position => position.clone());
+    const holes = this._holes.map(hole => hole.map(position => position.clone()));
+    const holeDraft = draft ? clonePositions(draft.positions.slice(0, draft.points.length)) : undefined;
+    const last = this._history[this._historyIndex];
+    if (
+      last &&
+      last.status === status &&
+      samePositions(last.positions, positions) &&
+      (last.holes ?? []).length === holes.length &&
+      (last.holes ?? []).every((hole, index) => samePositions(hole, holes[index])) &&
+      !last.holeDraft === !holeDraft &&
+      samePositions(last.holeDraft ?? [], holeDraft ?? [])
+    ) return;
+    this._history.splice(this._historyIndex + 1);
+    this._history.push(holeDraft ? { positions, holes, holeDraft, status } : { positions, holes, status });
+    const { historyLimit = 100 } = this._options;
+    if (this._history.length > historyLimit + 1) this._history.shift();
+    this._historyIndex = this._history.length - 1;
+    this.handleHistoryChange();
+  }
+
+  /**
+   * 清空操作历史, 以当前坐标串作为初始记录
+   */
+  protected resetHistory() {
+    this._history = [];
+    this._historyIndex = -1;
+    this.recordHistory();
+  }
+
+  /**
+   * 清空操作历史, 没有当前图形时调用
+   */
+  private clearHistory() {
+    this._history = [];
+    this._historyIndex = -1;
+    this.handleHistoryChange();
+  }
+
+  /**
+   * 是否有正在绘制或编辑的图形, 没有时不能撤销和重做
+   */
+  private hasCurrentShape() {
+    return this._status === 'START' || !!this._currentId;
+  }
+
+  private handleHistoryChange() {
+    this._options.historyChange?.({ canUndo: this.canUndo, canRedo: this.canRedo });
+    this.updateTouchControls();
+  }
+
+  /**
+   * 撤销上一步操作
+   * @returns {boolean} 是否撤销成功
+   */
+  undo() {
+    if (!this.canUndo || !this.hasCurrentShape() || this._dragIndex !== null || this._transformDrag) return false;
+    this._historyIndex--;
+    this.applyHistory(this._history[this._historyIndex]);
+    this.handleHistoryChange();
+    return true;
+  }
+
+  /**
+   * 重做上一步撤销的操作
+   * @returns {boolean} 是否重做成功
+   */
+  redo() {
+    if (!this.canRedo || !this.hasCurrentShape() || this._dragIndex !== null || this._transformDrag) return false;
+    this._historyIndex++;
+    this.applyHistory(this._history[this._historyIndex]);
+    this.handleHistoryChange();
+    return true;
+  }
+
+  /**
+   * 撤销或重做到一条历史记录, 与编辑操作一样触发回调
+   * @param record 历史记录
+   */
+  private applyHistory(record: HistoryRecord) {
+    this.restore(record);
+    this.handlePosChange();
+    if (record.status === 'END' && !record.holeDraft) this.handleCallback();
+  }
+
+  /**
+   * 恢复到一条历史记录, 记录处于绘制阶段时继续绘制, 只恢复图形, 不触发回调
+   * @param record 历史记录
+   */
+  protected restore(record: HistoryRecord) {
+    this.stopTransform();
+    this.clearHoles();
+    (record.holes ?? []).forEach(hole => this.addHole(hole.map(position => position.clone())));
+    this._subscriber.remove(this._pointGeometry, 'LEFT_DOWN');
+    this._pointGeometry.forEach(entity => this.removeHandle(entity));
+    this._pointGeometry = [];
+    this._activePoint = null;
+    this._hoveredPoint = null;
+
+    const positions = record.positions.map(position => position.clone());
+    this._positions.length = 0;
+    positions.forEach(position => {
+      const pointGeo = this.drawPoint(position);
+      this.setPointState(pointGeo, 'point');
+      this._subscriber.add(pointGeo, this.onMouseDownPoint, 'LEFT_DOWN');
+      this._pointGeometry.push(pointGeo);
+      this._positions.push(position);
+    });
+
+    if (record.status === 'START') {
+      // 重新添加活动点
+      const last = positions[positions.length - 1];
+      this._activePoint = this.drawPoint(last ?? new Cesium.Cartesian3());
+      this._pointGeometry.push(this._activePoint);
+      if (last) {
+        this._positions.push(last.clone());
+      } else {
+        this.removeShape();
+      }
+      this._status = 'START';
+      this._lastClickPosition = new Cesium.Cartesian2(Number.POSITIVE_INFINITY, Number.POSITIVE_INFINITY);
+    } else {
+      this._status = 'END';
+    }
+    if (!this._shape && this._positions.length && (record.status === 'START' || this._options.retainGeo !== false)) {
+      this.drawShape(new Cesium.CallbackProperty(() => this._positions, false));
+    }
+    this.updateMidpoints();
+    this.updateLabel();
+    if (record.status === 'END') this.afterDrawEnd();
+    if (record.holeDraft) this.restoreHoleDraft(record.holeDraft.map(position => position.clone()));
+    this.refresh();
+    this._viewer.scene.requestRender();
+  }
+
+  /**
+   * 将当前图形的坐标存入图形集合, 点数不足时保留上一次存入的坐标
+   */
+  private storeCurrent() {
+    if (!this._currentId) return;
+    const positions = this.getFixedPositions();
+    const stored = this._shapes.get(this._currentId);
+    if (positions.length < this._minPointNum) {
+      if (!stored) this._shapes.set(this._currentId, { positions: [], holes: [], properties: {}, style: {}, entity: null });
+      return;
+    }
+    this._shapes.set(this._currentId, {
+      positions: clonePositions(positions),
+      holes: this._holes.map(clonePositions),
+      properties: { ...this._properties },
+      style: this._shapeStyle,
+      entity: stored?.entity ?? null,
+    });
+  }
+
+  /**
+   * 结束当前图形的编辑, 已完成的图形以静态Entity保留在图形集合中, 未完成的图形直接丢弃
+   */
+  private park() {
+    const id = this._currentId;
+    if (id) this.storeCurrent();
+    if (this._status === 'START' && !this._holeDraft) this.emit('cancel', { hole: false });
+    this.stop();
+    this.removeShape();
+    this._currentId = null;
+    this._properties = {};
+    this._shapeStyle = {};
+    // 图形已存入图形集合, 其操作历史不再可用
+    if (this._history.length) this.clearHistory();
+    if (id) this.showStored(id);
+  }
+
+  /**
+   * 以静态Entity显示图形集合中的图形, 单击时选中该图形
+   * @param id 图形id
+   */
+  private showStored(id: string) {
+    const stored = this._shapes.get(id);
+    if (!stored || stored.positions.length < this._minPointNum || this._options.retainGeo === false) return;
+    stored.entity = this._viewer.entities.add(this.buildGeometry(
+      new Cesium.CallbackProperty(() => stored.positions, true),
+      new Cesium.CallbackProperty(() => toHierarchies(stored.holes), true),
+    ));
+    this.applyShapeStyle(stored.entity, this.getCompletedStyle(stored.style));
+    this._subscriber.add(stored.entity, this.onClickShape, 'LEFT_CLICK');
+    this._viewer.scene.requestRender();
+  }
+
+  /**
+   * 未选中图形的左键单击事件, 未在绘制时选中该图形进行编辑
+   */
+  private onClickShape = (movement: EventArgs, entity: Entity) => {
+    if (this._status === 'START' || this._status === 'EDITING' || this._transforming) return;
+    // 其他绘制工具激活时可以切换到该图形, 其他类型的工具激活时不响应
+    const { active } = this._tools;
+    if (active && active !== this && !(active instanceof BaseDrawer)) return;
+    const id = [...this._shapes.keys()].find(key => this._shapes.get(key)?.entity === entity);
+    if (!id) return;
+    movement.stopPropagation?.();
+    this.select(id);
+  }
+
+  /**
+   * 从图形集合中移除一个未选中的图形
+   */
+  private removeStoredShape(id: string) {
+    const stored = this._shapes.get(id);
+    if (!stored) return false;
+    if (stored.entity) {
+      this._subscriber.remove(stored.entity, 'LEFT_CLICK');
+      this._viewer.entities.remove(stored.entity);
+    }
+    this._shapes.delete(id);
+    this._viewer.scene.requestRender();
+    return true;
+  }
+
+  /**
+   * 获取图形集合中所有已完成的图形
+   * @returns GeoJSON要素数组, 要素的id为图形id
+   */
+  getShapes() {
+    return [...this._shapes.entries()]
+      .map(([id, stored]) => (
+        (id === this._currentId && this.toGeoJSON()) ||
+        (stored.positions.length ? this.toFeature(stored.positions, stored.holes, stored.properties, id) : null)
+      ))
+      .filter((feature): feature is Feature => !!feature);
+  }
+
+  /**
+   * 选中一个图形进行编辑, 当前图形存入图形集合, 未完成的绘制会被丢弃
+   * @param id 图形id
+   * @returns {boolean} 是否选中成功
+   */
+  select(id: string) {
+    if (id === this._currentId) return true;
+    const stored = this._shapes.get(id);
+    if (!stored || this.isDestroy) return false;
+    this.park();
+    this.removeStoredShape(id);
+    this._shapes.set(id, { ...stored, entity: null });
+    this._currentId = id;
+    this._properties = { ...stored.properties };
+    this._shapeStyle = stored.style;
+    return this.load(clonePositions(stored.positions), stored.holes.map(clonePositions));
+  }
+
+  /**
+   * 移除一个图形
+   * @param id 图形id
+   * @returns {boolean} 是否移除成功
+   */
+  remove(id: string) {
+    if (id === this._currentId) {
+      this.clear();
+      return true;
+    }
+    if (!this.removeStoredShape(id)) return false;
+    this._options.shapeChange?.(id, null);
+    return true;
+  }
+
+  /**
+   * 移除所有图形, 包括正在绘制的图形
+   */
+  removeAll() {
+    // 当前图形由 clear 移除, 只触发一次 clear 事件
+    [...this._shapes.keys()].filter(id => id !== this._currentId).forEach(id => this.remove(id));
+    this.clear();
+  }
+
+  /**
+   * 移除当前图形, 包括正在绘制的图形
+   */
+  clear() {
+    if (this._status === 'START' && !this._holeDraft) this.emit('cancel', { hole: false });
+    this.stop();
+    this.removeShape();
+    this.updateLabel();
+    const id = this._currentId;
+    this._currentId = null;
+    if (id && this.removeStoredShape(id)) this._options.shapeChange?.(id, null);
+    this.emit('clear', { id });
+    this._properties = {};
+    this._shapeStyle = {};
+    this.clearHistory();
+    this.releaseEvents();
+  }
+
+  /**
+   * 停用绘制工具, 当前图形存入图形集合, 未完成的绘制会被丢弃, 并恢复viewer的原生事件和鼠标样式.
+   * 激活其他工具时自动调用
+   */
+  deactivate() {
+    if (this.isDestroy) return;
+    this.clearHover();
+    this.park();
+    this.updateLabel();
+    this.releaseEvents();
+  }
+
+  /**
+   * 移除鼠标事件并交还工具管理器
+   */
+  private releaseEvents() {
+    this._subscriber.removeExternal(this._events);
+    this._events = [];
+    this.cancelLongPress();
+    this._tools.deactivate(this);
+  }
+
+  destory() {
+    // 只移除图形的显示, 不触发 shapeChange 和 clear, 应用中保存的图形不受影响
+    this.stop();
+    this.removeShape();
+    [...this._shapes.keys()].forEach(id => this.removeStoredShape(id));
+    this._currentId = null;
+    this.releaseEvents();
+    window.removeEventListener('keydown', this.handleShiftKey);
+    window.removeEventListener('keyup', this.handleShiftKey);
+    window.removeEventListener('blur', this.resetShiftKey);
+    const { canvas } = this._viewer;
+    canvas.removeEventListener('keydown', this.handleKeyDown);
+    if (this._canvasFocus) {
+      const { tabIndex } = this._canvasFocus;
+      if (tabIndex === null) canvas.removeAttribute('tabindex');
+      else canvas.setAttribute('tabindex', tabIndex);
+      canvas.style.outline = this._canvasFocus.outline;
+      this._canvasFocus = null;
+    }
+    if (this._snapIndicator) this._viewer.entities.remove(this._snapIndicator);
+    this._snapIndicator = null;
+    this.cancelLongPress();
+    this._touchControls?.destroy();
+    this._touchControls = null;
+    this._tooltip.destroy();
+    this._labels.destroy();
+    if (this._pointPrimitives) this._viewer.scene.primitives.remove(this._pointPrimitives);
+    this._pointPrimitives = null;
+    this._subscriber.destroy();
+    this._status = 'DESTROY';
+    this.emit('destroy', {});
+    this._emitter.clear();
+  }
+
+}
@@ -0,0 +1,58 @@
+import { Cartesian3, Viewer } from 'cesium';
+import EllipticDrawer, { EllipticDrawerOptions } from './EllipticDrawer';
+import { Ellipse, toLocal } from './geometry';
+
+export type CircleResult = {
+  center: number[];
+  /** 半径(米) */
+  radius: number;
+}
+
+export type CircleDrawerOptions = EllipticDrawerOptions<CircleResult>;
+
+export default class CircleDrawer extends EllipticDrawer<CircleResult> {
+  protected _minPointNum = 2;
+  protected _maxPointNum = 2;
+
+  /**
+   * Create a CircleDrawer Class.
+   * LeftClick to set the center, move to set the radius, and LeftClick again to complete.
+   * @param viewer cesium viewer
+   * @param options the same as PolygonDrawer options,
+   * but callback and posChange receive the densified ring and { center, radius }.
+   * @param [options.segments] number of points in the output ring, default 64.
+   * @example
+   * const DrawTool = new CircleDrawer(viewer, {
+      callback: (coors, { center, radius }) => {
+        console.log(coors, center, radius);
+      },
+    })
+   */
+  constructor(viewer: Viewer, options?: CircleDrawerOptions) {
+    super(viewer, options);
+  }
+
+  protected getEllipse(positions: Cartesian3[]) {
+    if (positions.length < 2) return undefined;
+    const [center, edge] = positions;
+    const { x, y } = toLocal(center, edge);
+    const radius = Math.hypot(x, y);
+    return {
+      center,
+      semiMajorAxis: radius,
+      semiMinorAxis: radius,
+      rotation: 0,
+    };
+  }
+
+  protected toResult(positions: Cartesian3[]): CircleResult {
+    return {
+      center: this.cartesian2lonlat(positions[0]),
+      radius: +(this.getEllipse(positions)?.semiMajorAxis ?? 0).toFixed(3),
+    };
+  }
+
+  protected getMeasureText(ellipse: Ellipse) {
+    return `R: ${this.formatMeters(ellipse.semiMajorAxis)}`;
+  }
+}
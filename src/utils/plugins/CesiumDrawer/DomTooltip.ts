@@ -0,0 +1,70 @@
+import { injectStyle } from './dom';
+import { TooltipRender, TooltipRenderer, TooltipState } from './tooltip';
+
+const CLASS_NAME = 'cesium-drawer-tooltip';
+
+/** 默认样式, 使用 :where 使优先级为0, 方便应用覆盖 */
+const DEFAULT_CSS = `:where(.${CLASS_NAME}) {
+  position: absolute;
+  z-index: 1;
+  padding: 4px 8px;
+  border-radius: 4px;
+  background: rgba(0, 0, 0, 0.75);
+  color: #fff;
+  font: 13px/1.5 sans-serif;
+  white-space: pre-line;
+  pointer-events: none;
+}`;
+
+/**
+ * 以跟随鼠标的DOM浮层显示提示, 可通过 .cesium-drawer-tooltip 类名设置样式
+ */
+export default class DomTooltip implements TooltipRenderer {
+  private _container: HTMLElement;
+  private _element: HTMLDivElement;
+  private _render: TooltipRender | undefined;
+  /** 浮层相对鼠标的偏移 */
+  private _offset = 16;
+
+  /**
+   * @param container 浮层所在的容器, 一般为 viewer.container
+   * @param render 自定义提示内容
+   */
+  constructor(container: HTMLElement, render?: TooltipRender) {
+    injectStyle(CLASS_NAME, DEFAULT_CSS);
+    this._container = container;
+    this._render = render;
+    this._element = document.createElement('div');
+    this._element.className = CLASS_NAME;
+    this._element.style.display = 'none';
+    container.appendChild(this._element);
+    container.addEventListener('pointermove', this.handlePointerMove);
+  }
+
+  private handlePointerMove = (event: PointerEvent) => {
+    const rect = this._container.getBoundingClientRect();
+    this._element.style.left = `${event.clientX - rect.left + this._offset}px`;
+    this._element.style.top = `${event.clientY - rect.top + this._offset}px`;
+  }
+
+  update(state: TooltipState) {
+    const content = !state.show ? null : this._render ? this._render(state) : state.text;
+    if (!content) {
+      this._element.style.display = 'none';
+      return;
+    }
+    if (typeof content !== 'string') {
+      this._element.replaceChildren(content);
+    } else if (this._render) {
+      this._element.innerHTML = content;
+    } else {
+      this._element.textContent = content;
+    }
+    this._element.style.display = '';
+  }
+
+  destroy() {
+    this._container.removeEventListener('pointermove', this.handlePointerMove);
+    this._element.remove();
+  }
+}
@@ -0,0 +1,81 @@
+import * as Cesium from 'cesium';
+
+import { Cartesian3, Viewer } from 'cesium';
+import EllipticDrawer, { EllipticDrawerOptions } from './EllipticDrawer';
+import { Ellipse, toLocal } from './geometry';
+
+export type EllipseResult = {
+  center: number[];
+  /** 长半轴(米) */
+  semiMajorAxis: number;
+  /** 短半轴(米) */
+  semiMinorAxis: number;
+  /** 长半轴方向, 自正北方向顺时针的角度 */
+  rotation: number;
+}
+
+export type EllipseDrawerOptions = EllipticDrawerOptions<EllipseResult>;
+
+export default class EllipseDrawer extends EllipticDrawer<EllipseResult> {
+  protected _minPointNum = 3;
+  protected _maxPointNum = 3;
+
+  /**
+   * Create a EllipseDrawer Class.
+   * LeftClick to set the center, LeftClick to set the first semi-axis and rotation,
+   * and LeftClick again to set the second semi-axis.
+   * @param viewer cesium viewer
+   * @param options the same as PolygonDrawer options,
+   * but callback and posChange receive the densified ring and { center, semiMajorAxis, semiMinorAxis, rotation }.
+   * @param [options.segments] number of points in the output ring, default 64.
+   * @example
+   * const DrawTool = new EllipseDrawer(viewer, {
+      callback: (coors, ellipse) => {
+        console.log(coors, ellipse);
+      },
+    })
+   */
+  constructor(viewer: Viewer, options?: EllipseDrawerOptions) {
+    super(viewer, options);
+  }
+
+  protected getEllipse(positions: Cartesian3[]) {
+    if (positions.length < 2) return undefined;
+    const [center, first, second] = positions;
+    const local = toLocal(center, first);
+    let semiMajorAxis = Math.hypot(local.x, local.y);
+    let rotation = Math.atan2(local.y, local.x);
+    let semiMinorAxis = semiMajorAxis;
+    if (second) {
+      // 第二个半轴取第三个点到第一条轴的垂直距离
+      const { x, y } = toLocal(center, second);
+      semiMinorAxis = Math.abs(-Math.sin(rotation) * x + Math.cos(rotation) * y);
+    }
+    if (semiMinorAxis > semiMajorAxis) {
+      [semiMajorAxis, semiMinorAxis] = [semiMinorAxis, semiMajorAxis];
+      rotation += Cesium.Math.PI_OVER_TWO;
+    }
+    return {
+      center,
+      semiMajorAxis,
+      semiMinorAxis,
+      rotation,
+    };
+  }
+
+  protected toResult(positions: Cartesian3[]): EllipseResult {
+    const ellipse = this.getEllipse(positions);
+    const rotation = ellipse ? Cesium.Math.toDegrees(Cesium.Math.PI_OVER_TWO - ellipse.rotation) : 0;
+    return {
+      center: this.cartesian2lonlat(positions[0]),
+      semiMajorAxis: +(ellipse?.semiMajorAxis ?? 0).toFixed(3),
+      semiMinorAxis: +(ellipse?.semiMinorAxis ?? 0).toFixed(3),
+      rotation: +Cesium.Math.mod(rotation, 360).toFixed(2),
+    };
+  }
+
+  protected getMeasureText(ellipse: Ellipse) {
+    const { semiMajorAxis, semiMinorAxis } = ellipse;
+    return `a: ${this.formatMeters(semiMajorAxis)}, b: ${this.formatMeters(semiMinorAxis)}`;
+  }
+}
@@ -0,0 +1,101 @@
+import * as Cesium from 'cesium';
+
+import { CallbackProperty, Cartesian3, Viewer } from 'cesium';
+import BaseDrawer, { BaseDrawerOptions } from './BaseDrawer';
+import { centroid, computeEllipsePositions, Ellipse } from './geometry';
+
+export type EllipticDrawerOptions<R> = Omit<BaseDrawerOptions, 'callback' | 'posChange'> & {
+  segments?: number;
+  callback?: (coors: number[][], result: R) => void;
+  posChange?: (coors: number[][], result: R) => void;
+}
+
+/**
+ * 圆和椭圆绘制的基类, 图形以加密后的多边形边界绘制和输出
+ */
+export default abstract class EllipticDrawer<R> extends BaseDrawer {
+  protected _segments: number;
+  protected _closed = true;
+
+  constructor(viewer: Viewer, options?: EllipticDrawerOptions<R>) {
+    const { callback, posChange, segments = 64 } = options ?? {};
+    super(viewer, { ...options, callback: undefined, posChange: undefined });
+    this._segments = segments;
+    if (callback) this._callBack = coors => callback(coors, this.toResult(this._positions));
+    if (posChange) this._posChange = coors => posChange(coors, this.toResult(this.getFixedPositions()));
+  }
+
+  /**
+   * 由控制点计算椭圆参数
+   * @param positions 控制点坐标串, 第一个点为圆心
+   */
+  protected abstract getEllipse(positions: Cartesian3[]): Ellipse | undefined;
+
+  /**
+   * 由控制点计算回调函数输出的图形参数
+   * @param positions 控制点坐标串
+   */
+  protected abstract toResult(positions: Cartesian3[]): R;
+
+  /**
+   * 标签中显示的测量信息
+   * @param ellipse 椭圆参数
+   */
+  protected abstract getMeasureText(ellipse: Ellipse): string;
+
+  /**
+   * 绘制椭圆
+   */
+  protected buildGeometry(positions: CallbackProperty) {
+    return {
+      polygon: {
+        hierarchy: new Cesium.CallbackProperty(
+          time => new Cesium.PolygonHierarchy(this.computeRing(positions.getValue(time))),
+          false
+        ),
+        material: Cesium.Color.YELLOW.withAlpha(0.5)
+      }
+    };
+  }
+
+  private computeRing(positions: Cartesian3[]) {
+    const ellipse = this.getEllipse(positions);
+    return ellipse ? computeEllipsePositions(ellipse, this._segments) : [];
+  }
+
+  /**
+   * 输出加密后的边界, 控制点不足时按原样输出
+   */
+  protected toCoordinates(positions: Cartesian3[]) {
+    const ring = this.computeRing(positions);
+    if (!ring.length) return super.toCoordinates(positions);
+    return ring.map(this.cartesian2lonlat);
+  }
+
+  /**
+   * 由边界还原控制点: 圆心取边界的中心, 其后依次为距圆心最远和最近的边界点
+   */
+  protected fromCoordinates(coors: number[][]) {
+    const ring = super.fromCoordinates(coors);
+    if (ring.length < this._minPointNum) return ring;
+    const center = Cesium.Cartographic.toCartesian(centroid(ring));
+    const sorted = ring
+      .map(position => ({ position, distance: Cesium.Cartesian3.distance(center, position) }))
+      .sort((a, b) => b.distance - a.distance)
+      .map(item => item.position);
+    return [center, sorted[0], sorted[sorted.length - 1]].slice(0, this._maxPointNum);
+  }
+
+  protected getTipText() {
+    const tip = super.getTipText();
+    const ellipse = this.getEllipse(this._positions);
+    return ellipse ? `${tip}\n${this.getMeasureText(ellipse)}` : tip;
+  }
+
+  /**
+   * 长度格式化为米
+   */
+  protected formatMeters(length: number) {
+    return `${length.toFixed(2)} m`;
+  }
+}
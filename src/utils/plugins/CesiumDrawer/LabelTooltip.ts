@@ -0,0 +1,46 @@
+import * as Cesium from 'cesium';
+
+import { Label, LabelCollection } from 'cesium';
+import { applyLabelStyle, LabelStyle } from './style';
+import { TooltipRenderer, TooltipState } from './tooltip';
+
+/**
+ * 以Cesium标签显示提示
+ */
+export default class LabelTooltip implements TooltipRenderer {
+  private _labels: LabelCollection;
+  private _label: Label;
+
+  constructor(labels: LabelCollection) {
+    this._labels = labels;
+    this._label = labels.add({
+      show: false,
+      position: new Cesium.Cartesian3(),
+      text: '',
+      font: `bold 1rem Arial`,
+      fillColor: Cesium.Color.WHITE,
+      backgroundColor: Cesium.Color.fromCssColorString('#000000'),
+      backgroundPadding: new Cesium.Cartesian2(4, 4),
+      outlineWidth: 4,
+      style: Cesium.LabelStyle.FILL_AND_OUTLINE,
+      pixelOffset: new Cesium.Cartesian2(4, 30),
+      scale: 1,
+      scaleByDistance: new Cesium.NearFarScalar(1, 0.85, 8.0e6, .75)
+    });
+  }
+
+  update(state: TooltipState) {
+    const { show, text, position } = state;
+    if (position) this._label.position = position;
+    this._label.text = text;
+    this._label.show = show;
+  }
+
+  setStyle(style: LabelStyle) {
+    applyLabelStyle(this._label, style);
+  }
+
+  destroy() {
+    if (!this._labels.isDestroyed()) this._labels.remove(this._label);
+  }
+}
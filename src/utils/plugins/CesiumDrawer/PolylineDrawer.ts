@@ -0,0 +1,40 @@
+import * as Cesium from 'cesium';
+
+import { CallbackProperty, Viewer } from 'cesium';
+import BaseDrawer, { BaseDrawerOptions } from './BaseDrawer';
+
+export type PolylineDrawerOptions = BaseDrawerOptions;
+
+export default class PolylineDrawer extends BaseDrawer {
+  protected _minPointNum = 2;
+
+  /**
+   * Create a PolylineDrawer Class, the interaction is the same as PolygonDrawer
+   * @param viewer cesium viewer
+   * @param options the same as PolygonDrawer options
+   * @example
+   * const DrawTool = new PolylineDrawer(viewer, {
+      callback: (result) => {
+        console.log(result);
+      },
+    })
+   */
+  constructor(viewer: Viewer, options?: PolylineDrawerOptions) {
+    super(viewer, options);
+  }
+
+  /**
+   * 绘制折线
+   */
+  protected buildGeometry(positions: CallbackProperty) {
+    return {
+      polyline: {
+        positions,
+        width: 3,
+        material: Cesium.Color.YELLOW,
+        // 拾取的点带有高度时贴地绘制, 避免线段穿入地形
+        clampToGround: this._options.pickMode !== 'ellipsoid',
+      }
+    };
+  }
+}
@@ -0,0 +1,163 @@
+import * as Cesium from 'cesium';
+
+import { Cartesian3, Color, GroundPrimitive, Material, Polyline, PolylineCollection, PolygonHierarchy, Primitive, Viewer } from 'cesium';
+import { samePositions } from './geometry';
+
+export type PrimitiveShapeOptions = {
+  /** 是否为闭合的面, 否则为线 */
+  closed: boolean;
+  /** 面的填充是否贴地 */
+  clampToGround: boolean;
+}
+
+export type PrimitiveShapeStyle = {
+  /** 面的填充颜色 */
+  fill: Color;
+  /** 线或面的边线颜色, 不填时面只在绘制和拖拽中以填充色绘制边线 */
+  line?: Color;
+  lineWidth: number;
+}
+
+function sameHoles(a: PolygonHierarchy[], b: PolygonHierarchy[]) {
+  return a.length === b.length && a.every((hole, index) => samePositions(hole.positions, b[index].positions));
+}
+
+/**
+ * 以图元绘制的图形, 用于顶点很多的图形.
+ * 线和边线在 PolylineCollection 中直接更新坐标, 面的填充只在图形稳定后重建, 避免每帧重建几何
+ */
+export default class PrimitiveShape {
+  private _viewer: Viewer;
+  private _options: PrimitiveShapeOptions;
+  private _lines: PolylineCollection;
+  private _line: Polyline;
+  private _material: Material;
+  /** 当前材质的颜色 */
+  private _lineColor: Color;
+  private _fill: Primitive | GroundPrimitive | null = null;
+  /** 当前填充所用的坐标, 坐标和样式未变化时不重建填充 */
+  private _filled: { ring: Cartesian3[]; holes: PolygonHierarchy[] } | null = null;
+  private _style: PrimitiveShapeStyle = { fill: Cesium.Color.YELLOW.withAlpha(0.5), line: Cesium.Color.YELLOW, lineWidth: 2 };
+  private _ring: Cartesian3[] = [];
+  private _holes: PolygonHierarchy[] = [];
+  private _settled = false;
+
+  constructor(viewer: Viewer, options: PrimitiveShapeOptions) {
+    this._viewer = viewer;
+    this._options = options;
+    this._lines = viewer.scene.primitives.add(new Cesium.PolylineCollection());
+    this._lineColor = this._style.line!;
+    this._material = Cesium.Material.fromType('Color', { color: this._lineColor });
+    this._line = this._lines.add({ show: false, width: this._style.lineWidth, material: this._material });
+    // 拾取结果的id为图形本身, 与Entity的拾取方式一致
+    this._line.id = this;
+  }
+
+  /**
+   * 更新坐标
+   * @param ring 面的外环或线的坐标串
+   * @param holes 面的洞
+   * @param settled 图形是否稳定, 绘制或拖拽中不稳定时隐藏面的填充
+   */
+  update(ring: Cartesian3[], holes: PolygonHierarchy[], settled: boolean) {
+    this._ring = ring;
+    this._holes = holes;
+    this._settled = settled;
+    this.updateLine();
+    this.updateFill();
+  }
+
+  /**
+   * 设置样式, 样式未变化时不重建填充
+   * @param style 样式
+   */
+  setStyle(style: PrimitiveShapeStyle) {
+    const { fill, line, lineWidth } = this._style;
+    if (
+      fill.equals(style.fill) &&
+      Cesium.Color.equals(line, style.line) &&
+      lineWidth === style.lineWidth
+    ) return;
+    const fillChanged = !fill.equals(style.fill);
+    this._style = style;
+    this._line.width = style.lineWidth;
+    if (fillChanged) this.removeFill();
+    this.updateLine();
+    this.updateFill();
+  }
+
+  /**
+   * 线的颜色, 面没有边线时在未稳定期间以填充色绘制边线, 否则绘制和拖拽中图形不可见
+   */
+  private getLineColor() {
+    const { line, fill } = this._style;
+    return line ?? (this._settled ? undefined : fill.withAlpha(1));
+  }
+
+  /**
+   * 更新线的坐标, 颜色变化时才替换材质
+   */
+  private updateLine() {
+    const ring = this._ring;
+    const color = this.getLineColor();
+    this._line.show = !!color && ring.length >= 2;
+    if (!color || !this._line.show) return;
+    // 替换材质会使 PolylineCollection 重建所有顶点数组
+    if (!color.equals(this._lineColor)) {
+      const previous = this._material;
+      this._lineColor = color;
+      this._material = Cesium.Material.fromType('Color', { color });
+      this._line.material = this._material;
+      previous.destroy();
+    }
+    this._line.positions = this._options.closed && ring.length > 2 ? [...ring, ring[0]] : ring;
+    this._viewer.scene.requestRender();
+  }
+
+  /**
+   * 图形稳定后构建填充, 坐标和样式未变化时保留已有的填充
+   */
+  private updateFill() {
+    if (!this._options.closed || !this._settled || this._ring.length < 3) {
+      this.removeFill();
+      return;
+    }
+    const filled = this._filled;
+    if (this._fill && filled && samePositions(filled.ring, this._ring) && sameHoles(filled.holes, this._holes)) return;
+    this.removeFill();
+    const { clampToGround } = this._options;
+    const { fill } = this._style;
+    const geometryInstances = new Cesium.GeometryInstance({
+      geometry: new Cesium.PolygonGeometry({
+        polygonHierarchy: new Cesium.PolygonHierarchy(this._ring, this._holes),
+        perPositionHeight: !clampToGround,
+        vertexFormat: Cesium.PerInstanceColorAppearance.FLAT_VERTEX_FORMAT,
+      }),
+      id: this,
+      attributes: {
+        color: Cesium.ColorGeometryInstanceAttribute.fromColor(fill),
+      },
+    });
+    const appearance = new Cesium.PerInstanceColorAppearance({ flat: true, translucent: fill.alpha < 1 });
+    this._fill = this._viewer.scene.primitives.add(clampToGround
+      ? new Cesium.GroundPrimitive({ geometryInstances, appearance })
+      : new Cesium.Primitive({ geometryInstances, appearance }));
+    this._filled = { ring: this._ring, holes: this._holes };
+    this._viewer.scene.requestRender();
+  }
+
+  private removeFill() {
+    if (!this._fill) return;
+    this._viewer.scene.primitives.remove(this._fill);
+    this._fill = null;
+    this._filled = null;
+    this._viewer.scene.requestRender();
+  }
+
+  destroy() {
+    this.removeFill();
+    // 移除 PolylineCollection 时会一并销毁线的材质
+    this._viewer.scene.primitives.remove(this._lines);
+    this._viewer.scene.requestRender();
+  }
+}
@@ -0,0 +1,246 @@
+import * as Cesium from 'cesium';
+
+import { CallbackProperty, Cartesian3, Entity, Viewer } from 'cesium';
+import BaseDrawer, { BaseDrawerOptions, HistoryRecord } from './BaseDrawer';
+import { EventArgs } from './subscriber';
+
+export type RectangleDrawerOptions = Omit<BaseDrawerOptions, 'callback' | 'posChange'> & {
+  callback?: (coors: number[][], extent: number[]) => void;
+  posChange?: (coors: number[][], extent: number[]) => void;
+}
+
+/** 控制柄所控制的矩形边界, w/e/s/n 分别对应西/东/南/北 */
+type HandleRole = 'sw' | 'se' | 'ne' | 'nw' | 'w' | 'e' | 's' | 'n';
+
+const HANDLE_ROLES: HandleRole[] = ['sw', 'se', 'ne', 'nw', 'w', 'e', 's', 'n'];
+
+/**
+ * 由矩形角点坐标串计算范围, 跨越180°经线时取较窄的范围, 此时 west > east
+ * @param coors 角点经纬度数组
+ * @returns [west, south, east, north]
+ */
+export function coors2Extent(coors: number[][]) {
+  const lons = coors.map(coor => coor[0]);
+  const lats = coors.map(coor => coor[1]);
+  let west = Math.min(...lons);
+  let east = Math.max(...lons);
+  // 将西半球的经度移到 180°~360° 后比较跨度
+  const shifted = lons.map(lon => (lon < 0 ? lon + 360 : lon));
+  const shiftedWest = Math.min(...shifted);
+  const shiftedEast = Math.max(...shifted);
+  if (shiftedEast - shiftedWest < east - west) {
+    west = shiftedWest > 180 ? shiftedWest - 360 : shiftedWest;
+    east = shiftedEast > 180 ? shiftedEast - 360 : shiftedEast;
+  }
+  return [west, Math.min(...lats), east, Math.max(...lats)];
+}
+
+/**
+ * 由两个对角点计算矩形的四个角点
+ * @param positions 对角点坐标串
+ */
+function rectangle2Corners(positions: Cartesian3[]) {
+  const { west, south, east, north } = Cesium.Rectangle.fromCartesianArray(positions);
+  return Cesium.Cartesian3.fromRadiansArray([west, south, east, south, east, north, west, north]);
+}
+
+export default class RectangleDrawer extends BaseDrawer {
+  protected _minPointNum = 2;
+  protected _maxPointNum = 2;
+  /** 矩形始终沿经纬线, 不支持旋转 */
+  protected _closed = true;
+  protected _rotatable = false;
+  private _handles: Entity[] = [];
+  private _handleEvents: string[] = [];
+  private _dragRole: HandleRole | null = null;
+
+  /**
+   * Create a RectangleDrawer Class.
+   * LeftClick to set the first corner, move to preview, and LeftClick again to set the opposite corner.
+   * After drawing complete, drag the corner and edge handles to edit.
+   * @param viewer cesium viewer
+   * @param options the same as PolygonDrawer options,
+   * but callback and posChange also receive the extent [west, south, east, north].
+   * @example
+   * const DrawTool = new RectangleDrawer(viewer, {
+      callback: (coors, extent) => {
+        console.log(coors, extent);
+      },
+    })
+   */
+  constructor(viewer: Viewer, options?: RectangleDrawerOptions) {
+    const { callback, posChange } = options ?? {};
+    super(viewer, {
+      ...options,
+      callback: callback && (coors => callback(coors, coors2Extent(coors))),
+      posChange: posChange && (coors => posChange(coors, coors.length ? coors2Extent(coors) : [])),
+    });
+  }
+
+  /**
+   * 绘制矩形, 以沿经纬线的多边形表示
+   */
+  protected buildGeometry(positions: CallbackProperty) {
+    return {
+      polygon: {
+        hierarchy: new Cesium.CallbackProperty(
+          time => new Cesium.PolygonHierarchy(rectangle2Corners(positions.getValue(time))),
+          false
+        ),
+        arcType: Cesium.ArcType.RHUMB,
+        material: Cesium.Color.YELLOW.withAlpha(0.5)
+      }
+    };
+  }
+
+  /**
+   * 输出矩形的四个角点, 不足两个点时按原样输出.
+   * 角点的高度取两个对角点的平均高度, 与 cartesian2lonlat 一致, pickMode 为 ellipsoid 时不输出高度
+   */
+  protected toCoordinates(positions: Cartesian3[]) {
+    if (positions.length < 2) return super.toCoordinates(positions);
+    const { west, south, east, north } = Cesium.Rectangle.fromCartesianArray(positions, this._viewer.scene.globe.ellipsoid);
+    const [first, second] = positions.map(position => Cesium.Cartographic.fromCartesian(position));
+    const height = (first.height + second.height) / 2;
+    return Cesium.Cartesian3.fromRadiansArrayHeights([
+      west, south, height,
+      east, south, height,
+      east, north, height,
+      west, north, height,
+    ]).map(this.cartesian2lonlat);
+  }
+
+  /**
+   * 由角点坐标串取西南和东北两个对角点, 保留第一个角点的高度
+   */
+  protected fromCoordinates(coors: number[][]) {
+    const [west, south, east, north] = coors2Extent(coors);
+    const height = coors[0]?.slice(2, 3) ?? [];
+    return super.fromCoordinates([[west, south, ...height], [east, north, ...height]]);
+  }
+
+  /**
+   * 绘制结束后用角点和边的控制柄替代顶点
+   */
+  protected afterDrawEnd() {
+    if (this._status !== 'END' || !this._shape) return;
+    this.removeHandles();
+    this._pointGeometry.forEach(entity => {
+      entity.show = false;
+    });
+    this._handles = HANDLE_ROLES.map(role => this.drawHandle(role));
+    this._subscriber.add(this._handles, this.onHandleDown, 'LEFT_DOWN');
+    this._handleEvents = [
+      this._subscriber.addExternal(this.onHandleMove, 'MOUSE_MOVE'),
+      this._subscriber.addExternal(this.onHandleUp, 'LEFT_UP'),
+    ];
+    this._viewer.scene.requestRender();
+  }
+
+  /**
+   * 当前矩形范围(弧度)
+   */
+  private getRectangle() {
+    return Cesium.Rectangle.fromCartesianArray(this._positions, this._viewer.scene.globe.ellipsoid);
+  }
+
+  private drawHandle(role: HandleRole) {
+    const position = new Cesium.CallbackProperty(() => {
+      const rect = this.getRectangle();
+      const lon = role.includes('w') ? rect.west : role.includes('e') ? rect.east : Cesium.Rectangle.center(rect).longitude;
+      const lat = role.includes('s') ? rect.south : role.includes('n') ? rect.north : (rect.south + rect.north) / 2;
+      return Cesium.Cartesian3.fromRadians(lon, lat);
+    }, false);
+    return this._viewer.entities.add({
+      position: position as any,
+      point: {
+        color: role.length === 2 ? Cesium.Color.SKYBLUE : Cesium.Color.WHITE,
+        pixelSize: 8,
+        outlineColor: Cesium.Color.YELLOW,
+        outlineWidth: 2,
+        disableDepthTestDistance: Number.POSITIVE_INFINITY,
+      },
+    });
+  }
+
+  private removeHandles() {
+    this._subscriber.remove(this._handles, 'LEFT_DOWN');
+    this._subscriber.removeExternal(this._handleEvents);
+    this._handles.forEach(entity => this._viewer.entities.remove(entity));
+    this._handles = [];
+    this._handleEvents = [];
+    this.releaseHandle();
+  }
+
+  /**
+   * 控制柄的左键按下事件, 开始拖拽并禁用相机操作
+   */
+  private onHandleDown = (movement: EventArgs, entity: Entity) => {
+    const index = this._handles.indexOf(entity);
+    if (index === -1) return;
+    movement.stopPropagation?.();
+    this._dragRole = HANDLE_ROLES[index];
+    this.lockCamera();
+    this._status = 'EDITING';
+  }
+
+  /**
+   * 拖拽控制柄时更新矩形范围
+   */
+  private onHandleMove = (movement: EventArgs) => {
+    if (!this._dragRole || !movement.endPosition) return;
+    movement.stopPropagation?.();
+    const cartesian = this.snapPosition(movement.endPosition, this.pickPosition(movement.endPosition, movement.pick));
+    if (!cartesian) return;
+    const { longitude, latitude } = this._viewer.scene.globe.ellipsoid.cartesianToCartographic(cartesian);
+    let { west, south, east, north } = this.getRectangle();
+    let role: string = this._dragRole;
+    if (role.includes('w')) west = longitude;
+    if (role.includes('e')) east = longitude;
+    if (role.includes('s')) south = latitude;
+    if (role.includes('n')) north = latitude;
+    // 拖过对边时交换边界, 保证控制柄继续跟随鼠标. 跨越180°经线时 west > east, 以跨度是否超过半圈判断
+    if (Cesium.Math.zeroToTwoPi(east - west) > Math.PI) {
+      [west, east] = [east, west];
+      role = role.replace(/[we]/, c => (c === 'w' ? 'e' : 'w'));
+    }
+    if (south > north) {
+      [south, north] = [north, south];
+      role = role.replace(/[sn]/, c => (c === 's' ? 'n' : 's'));
+    }
+    this._dragRole = role as HandleRole;
+    const [first, second] = this._positions;
+    const { height: firstHeight } = Cesium.Cartographic.fromCartesian(first);
+    const { height: secondHeight } = Cesium.Cartographic.fromCartesian(second);
+    this.setPosition(0, Cesium.Cartesian3.fromRadians(west, south, firstHeight));
+    this.setPosition(1, Cesium.Cartesian3.fromRadians(east, north, secondHeight));
+    this.refresh();
+  }
+
+  /**
+   * 控制柄的左键抬起事件, 结束拖拽
+   */
+  private onHandleUp = (movement: EventArgs) => {
+    if (!this._dragRole) return;
+    movement.stopPropagation?.();
+    this.releaseHandle();
+    this._status = 'END';
+    this.commitEdit();
+  }
+
+  private releaseHandle() {
+    if (!this._dragRole) return;
+    this._dragRole = null;
+    this.unlockCamera();
+  }
+
+  protected restore(record: HistoryRecord) {
+    this.removeHandles();
+    super.restore(record);
+  }
+
+  protected stop(removePoint: boolean = true) {
+    this.removeHandles();
+    return super.stop(removePoint);
+  }
+}
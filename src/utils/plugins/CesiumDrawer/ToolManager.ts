@@ -0,0 +1,124 @@
+import * as Cesium from 'cesium';
+
+import { Viewer } from 'cesium';
+import Emitter from './emitter';
+import { EventType } from './subscriber';
+
+/**
+ * 可由工具管理器管理的交互工具, 如绘制工具、测量工具
+ */
+export interface Tool {
+  /** 被其他工具替代时调用, 工具应结束当前操作并停止响应事件 */
+  deactivate(): void;
+}
+
+export type ActivateOptions = {
+  /** 激活期间暂停的viewer原生鼠标事件, 如 LEFT_DOUBLE_CLICK */
+  natives?: EventType[];
+  /** 激活期间canvas的鼠标样式 */
+  cursor?: string;
+}
+
+export type ToolManagerEvents = {
+  change: { active: Tool | null; previous: Tool | null };
+}
+
+const managers = new WeakMap<Viewer, ToolManager>();
+
+/**
+ * 每个viewer的工具管理器, 同一时间只有一个工具处于激活状态.
+ * 激活工具时停用上一个工具, 并保存被暂停的原生事件和鼠标样式, 停用时恢复
+ */
+export default class ToolManager extends Emitter<ToolManagerEvents> {
+  private _viewer: Viewer;
+  private _active: Tool | null = null;
+  private _natives = new Map<EventType, Function>();
+  private _cursor = '';
+
+  /**
+   * 获取viewer的工具管理器, 不存在时创建
+   * @param viewer cesium viewer
+   */
+  static get(viewer: Viewer) {
+    let manager = managers.get(viewer);
+    if (!manager) {
+      manager = new ToolManager(viewer);
+      managers.set(viewer, manager);
+    }
+    return manager;
+  }
+
+  private constructor(viewer: Viewer) {
+    super();
+    this._viewer = viewer;
+  }
+
+  /**
+   * 当前激活的工具
+   */
+  get active() {
+    return this._active;
+  }
+
+  /**
+   * 激活工具, 已激活的其他工具会被停用
+   * @param tool 工具
+   * @param options 激活期间暂停的原生事件和鼠标样式
+   * @returns {boolean} 是否激活了新的工具, 工具已激活时返回false
+   */
+  activate(tool: Tool, options: ActivateOptions = {}) {
+    if (this._active === tool) return false;
+    const previous = this._active;
+    if (previous) {
+      this.release();
+      previous.deactivate();
+    }
+    const { screenSpaceEventHandler, canvas } = this._viewer;
+    (options.natives ?? []).forEach(type => {
+      const action = screenSpaceEventHandler.getInputAction(Cesium.ScreenSpaceEventType[type]);
+      if (!action) return;
+      this._natives.set(type, action);
+      screenSpaceEventHandler.removeInputAction(Cesium.ScreenSpaceEventType[type]);
+    });
+    this._cursor = canvas.style.cursor;
+    if (options.cursor) canvas.style.cursor = options.cursor;
+    this._active = tool;
+    this.emit('change', { active: tool, previous });
+    return true;
+  }
+
+  /**
+   * 停用工具, 恢复原生事件和鼠标样式, 工具未激活时不做处理
+   * @param tool 工具
+   * @returns {boolean} 是否停用成功
+   */
+  deactivate(tool: Tool) {
+    if (this._active !== tool) return false;
+    this.release();
+    this.emit('change', { active: null, previous: tool });
+    return true;
+  }
+
+  /**
+   * 设置当前工具的鼠标样式, 工具未激活时不做处理
+   * @param tool 工具
+   * @param cursor 鼠标样式, 不填时恢复激活前的样式
+   */
+  setCursor(tool: Tool, cursor?: string) {
+    if (this._active !== tool) return;
+    this._viewer.canvas.style.cursor = cursor ?? this._cursor;
+  }
+
+  /**
+   * 恢复原生事件和鼠标样式
+   */
+  private release() {
+    const { screenSpaceEventHandler, canvas } = this._viewer;
+    this._natives.forEach((action, type) => {
+      screenSpaceEventHandler.setInputAction(action as any, Cesium.ScreenSpaceEventType[type]);
+    });
+    this._natives.clear();
+    canvas.style.cursor = this._cursor;
+    this._active = null;
+  }
+}
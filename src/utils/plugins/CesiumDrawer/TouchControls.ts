@@ -0,0 +1,83 @@
+import { injectStyle } from './dom';
+
+const CLASS_NAME = 'cesium-drawer-touch';
+
+/** 默认样式, 使用 :where 使优先级为0, 方便应用覆盖 */
+const DEFAULT_CSS = `:where(.${CLASS_NAME}) {
+  position: absolute;
+  left: 50%;
+  bottom: 24px;
+  z-index: 1;
+  display: flex;
+  gap: 12px;
+  transform: translateX(-50%);
+}
+:where(.${CLASS_NAME} button) {
+  min-width: 88px;
+  min-height: 44px;
+  padding: 0 16px;
+  border: none;
+  border-radius: 22px;
+  background: rgba(0, 0, 0, 0.75);
+  color: #fff;
+  font: 16px sans-serif;
+  touch-action: manipulation;
+}
+:where(.${CLASS_NAME} button:disabled) {
+  opacity: 0.4;
+}`;
+
+export type TouchControlsOptions = {
+  undo: () => void;
+  finish: () => void;
+  undoText: string;
+  finishText: string;
+}
+
+export type TouchControlsState = {
+  show: boolean;
+  canUndo: boolean;
+  canFinish: boolean;
+}
+
+/**
+ * 触摸模式下屏幕上的撤销和完成按钮, 可通过 .cesium-drawer-touch 类名设置样式
+ */
+export default class TouchControls {
+  private _element: HTMLDivElement;
+  private _undo: HTMLButtonElement;
+  private _finish: HTMLButtonElement;
+
+  /**
+   * @param container 按钮所在的容器, 一般为 viewer.container
+   * @param options 按钮的操作和文字
+   */
+  constructor(container: HTMLElement, options: TouchControlsOptions) {
+    injectStyle(CLASS_NAME, DEFAULT_CSS);
+    this._element = document.createElement('div');
+    this._element.className = CLASS_NAME;
+    this._element.style.display = 'none';
+    this._undo = this.createButton(options.undoText, options.undo);
+    this._finish = this.createButton(options.finishText, options.finish);
+    container.appendChild(this._element);
+  }
+
+  private createButton(text: string, onClick: () => void) {
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.textContent = text;
+    button.addEventListener('click', onClick);
+    this._element.appendChild(button);
+    return button;
+  }
+
+  update(state: TouchControlsState) {
+    this._element.style.display = state.show ? '' : 'none';
+    this._undo.disabled = !state.canUndo;
+    this._finish.disabled = !state.canFinish;
+  }
+
+  destroy() {
+    this._element.remove();
+  }
+}
@@ -0,0 +1,12 @@
+/**
+ * 注入默认样式, 同一id的样式每个页面只注入一次
+ * @param id style元素的id
+ * @param css 样式
+ */
+export function injectStyle(id: string, css: string) {
+  if (document.getElementById(id)) return;
+  const style = document.createElement('style');
+  style.id = id;
+  style.textContent = css;
+  document.head.appendChild(style);
+}
@@ -0,0 +1,66 @@
+export type Listener<T> = (payload: T) => void;
+
+type Entry<T> = {
+  listener: Listener<T>;
+  once: boolean;
+}
+
+/**
+ * 类型化的事件派发器, Events 为事件名到事件参数的映射
+ */
+export default class Emitter<Events extends Record<string, any>> {
+  private _listeners: { [K in keyof Events]?: Entry<Events[K]>[] } = {};
+
+  /**
+   * 监听事件
+   * @param type 事件名
+   * @param listener 事件处理函数
+   */
+  on<K extends keyof Events>(type: K, listener: Listener<Events[K]>) {
+    (this._listeners[type] ??= []).push({ listener, once: false });
+    return this;
+  }
+
+  /**
+   * 监听事件, 触发一次后自动移除
+   * @param type 事件名
+   * @param listener 事件处理函数
+   */
+  once<K extends keyof Events>(type: K, listener: Listener<Events[K]>) {
+    (this._listeners[type] ??= []).push({ listener, once: true });
+    return this;
+  }
+
+  /**
+   * 移除监听, 不传处理函数时移除该事件的所有监听
+   * @param type 事件名
+   * @param listener 事件处理函数
+   */
+  off<K extends keyof Events>(type: K, listener?: Listener<Events[K]>) {
+    const entries = this._listeners[type];
+    if (!entries) return this;
+    this._listeners[type] = listener ? entries.filter(entry => entry.listener !== listener) : [];
+    return this;
+  }
+
+  /**
+   * 派发事件, 按监听的顺序调用处理函数
+   * @param type 事件名
+   * @param payload 事件参数
+   */
+  emit<K extends keyof Events>(type: K, payload: Events[K]) {
+    const entries = this._listeners[type];
+    if (!entries?.length) return;
+    if (entries.some(entry => entry.once)) {
+      this._listeners[type] = entries.filter(entry => !entry.once);
+    }
+    entries.forEach(entry => entry.listener(payload));
+  }
+
+  /**
+   * 移除所有监听
+   */
+  clear() {
+    this._listeners = {};
+  }
+}
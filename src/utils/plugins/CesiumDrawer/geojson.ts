@@ -0,0 +1,74 @@
+export type Position = number[];
+
+export type Geometry =
+  | { type: 'Point'; coordinates: Position }
+  | { type: 'LineString'; coordinates: Position[] }
+  | { type: 'Polygon'; coordinates: Position[][] }
+  | { type: 'MultiPoint'; coordinates: Position[] }
+  | { type: 'MultiLineString'; coordinates: Position[][] }
+  | { type: 'MultiPolygon'; coordinates: Position[][][] };
+
+export type Feature = {
+  type: 'Feature';
+  geometry: Geometry | null;
+  properties: Record<string, any> | null;
+  id?: string | number;
+}
+
+export type FeatureCollection = {
+  type: 'FeatureCollection';
+  features: Feature[];
+}
+
+function isClosed(coors: Position[]) {
+  const first = coors[0];
+  const last = coors[coors.length - 1];
+  return coors.length > 1 && first.length === last.length && first.every((value, index) => value === last[index]);
+}
+
+/**
+ * 闭合环, 首尾坐标不同时在末尾添加首个坐标
+ * @param coors 坐标串
+ */
+export function closeRing(coors: Position[]) {
+  return isClosed(coors) || !coors.length ? coors.slice() : [...coors, coors[0]];
+}
+
+/**
+ * 打开环, 首尾坐标相同时去除末尾的坐标
+ * @param coors 坐标串
+ */
+export function openRing(coors: Position[]) {
+  return isClosed(coors) ? coors.slice(0, -1) : coors.slice();
+}
+
+/**
+ * 将几何拆分为部件, 每个部件为环的数组: 线只有一个坐标串, 多边形为外环和内环
+ * @param geometry 几何
+ * @returns 部件数组, 点几何返回undefined
+ */
+export function geometryParts(geometry: Geometry): Position[][][] | undefined {
+  switch (geometry.type) {
+    case 'LineString':
+    case 'MultiPoint':
+      return [[geometry.coordinates]];
+    case 'Polygon':
+      return [geometry.coordinates];
+    case 'MultiLineString':
+      return geometry.coordinates.map(line => [line]);
+    case 'MultiPolygon':
+      return geometry.coordinates;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * 获取要素或要素集合中的所有要素
+ * @param geojson 要素或要素集合
+ */
+export function toFeatures(geojson: Feature | FeatureCollection): Feature[] {
+  if (!geojson) return [];
+  if (geojson.type === 'FeatureCollection') return geojson.features ?? [];
+  return geojson.type === 'Feature' ? [geojson] : [];
+}
@@ -0,0 +1,270 @@
+import * as Cesium from 'cesium';
+
+import { Cartesian3, Cartographic } from 'cesium';
+
+/**
+ * 椭圆参数, 半轴长度单位为米
+ */
+export type Ellipse = {
+  center: Cartesian3;
+  semiMajorAxis: number;
+  semiMinorAxis: number;
+  /** 长半轴方向, 自正东方向逆时针的弧度 */
+  rotation: number;
+}
+
+/**
+ * 计算点在原点的东北天(ENU)局部坐标系下的坐标
+ * @param origin 局部坐标系原点
+ * @param position 世界坐标
+ * @returns 局部坐标, 单位为米
+ */
+export function toLocal(origin: Cartesian3, position: Cartesian3) {
+  const transform = Cesium.Transforms.eastNorthUpToFixedFrame(origin);
+  const inverse = Cesium.Matrix4.inverseTransformation(transform, new Cesium.Matrix4());
+  return Cesium.Matrix4.multiplyByPoint(inverse, position, new Cesium.Cartesian3());
+}
+
+/**
+ * 计算椭圆边界坐标串
+ * @param ellipse 椭圆参数
+ * @param segments 分段数
+ * @returns 未闭合的边界坐标串, 半轴为0时返回空数组
+ */
+export function computeEllipsePositions(ellipse: Ellipse, segments = 64) {
+  const { center, semiMajorAxis, semiMinorAxis, rotation } = ellipse;
+  if (!semiMajorAxis || !semiMinorAxis) return [];
+  const transform = Cesium.Transforms.eastNorthUpToFixedFrame(center);
+  const cos = Math.cos(rotation);
+  const sin = Math.sin(rotation);
+  const positions: Cartesian3[] = [];
+  for (let i = 0; i < segments; i++) {
+    const theta = (i / segments) * Cesium.Math.TWO_PI;
+    const a = semiMajorAxis * Math.cos(theta);
+    const b = semiMinorAxis * Math.sin(theta);
+    const local = new Cesium.Cartesian3(a * cos - b * sin, a * sin + b * cos, 0);
+    const point = Cesium.Matrix4.multiplyByPoint(transform, local, new Cesium.Cartesian3());
+    positions.push(Cesium.Ellipsoid.WGS84.scaleToGeodeticSurface(point) ?? point);
+  }
+  return positions;
+}
+
+/**
+ * 沿椭球面测地线插值, 高度线性插值
+ * @param start 起点
+ * @param end 终点
+ * @param fraction 插值比例, 0为起点, 1为终点
+ */
+export function interpolate(start: Cartesian3, end: Cartesian3, fraction: number) {
+  const ellipsoid = Cesium.Ellipsoid.WGS84;
+  const startCarto = ellipsoid.cartesianToCartographic(start);
+  const endCarto = ellipsoid.cartesianToCartographic(end);
+  if (!startCarto || !endCarto) return Cesium.Cartesian3.lerp(start, end, fraction, new Cesium.Cartesian3());
+  const geodesic = new Cesium.EllipsoidGeodesic(startCarto, endCarto, ellipsoid);
+  const carto = geodesic.surfaceDistance
+    ? geodesic.interpolateUsingFraction(fraction)
+    : Cesium.Cartographic.clone(startCarto);
+  carto.height = startCarto.height + (endCarto.height - startCarto.height) * fraction;
+  return Cesium.Cartographic.toCartesian(carto, ellipsoid);
+}
+
+/**
+ * 计算两点在椭球面上的中点, 高度取两点的平均值
+ * @param start 起点
+ * @param end 终点
+ */
+export function midpoint(start: Cartesian3, end: Cartesian3) {
+  return interpolate(start, end, 0.5);
+}
+
+/**
+ * 两个坐标串是否逐点相同
+ */
+export function samePositions(a: Cartesian3[], b: Cartesian3[]) {
+  return a.length === b.length && a.every((position, index) => position.equals(b[index]));
+}
+
+/** 地球平均半径(米) */
+const EARTH_RADIUS = 6371008.8;
+
+/**
+ * 以原点为中心的极坐标, 距离和方位角均沿大圆计算
+ */
+export type Polar = {
+  /** 大圆距离(米) */
+  distance: number;
+  /** 方位角, 自正北方向顺时针的弧度 */
+  bearing: number;
+  height: number;
+}
+
+/**
+ * 计算目标点相对原点的极坐标
+ * @param origin 原点
+ * @param target 目标点
+ */
+export function toPolar(origin: Cartographic, target: Cartographic): Polar {
+  const { longitude: lon1, latitude: lat1 } = origin;
+  const { longitude: lon2, latitude: lat2, height } = target;
+  const dLon = lon2 - lon1;
+  const a = Math.sin((lat2 - lat1) / 2) ** 2 + Math.cos(lat1) * Math.cos(lat2) * Math.sin(dLon / 2) ** 2;
+  const distance = 2 * EARTH_RADIUS * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  const bearing = Math.atan2(
+    Math.sin(dLon) * Math.cos(lat2),
+    Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLon)
+  );
+  return { distance, bearing, height };
+}
+
+/**
+ * 由原点和极坐标计算目标点
+ * @param origin 原点
+ * @param polar 极坐标
+ */
+export function fromPolar(origin: Cartographic, polar: Polar) {
+  const { longitude: lon1, latitude: lat1 } = origin;
+  const { distance, bearing, height } = polar;
+  const delta = distance / EARTH_RADIUS;
+  const lat2 = Math.asin(
+    Math.sin(lat1) * Math.cos(delta) + Math.cos(lat1) * Math.sin(delta) * Math.cos(bearing)
+  );
+  const lon2 = lon1 + Math.atan2(
+    Math.sin(bearing) * Math.sin(delta) * Math.cos(lat1),
+    Math.cos(delta) - Math.sin(lat1) * Math.sin(lat2)
+  );
+  return new Cesium.Cartographic(Cesium.Math.negativePiToPi(lon2), lat2, height);
+}
+
+/**
+ * 计算点集在球面上的中心, 高度取平均值
+ * @param positions 坐标串
+ */
+export function centroid(positions: Cartesian3[]) {
+  let x = 0;
+  let y = 0;
+  let z = 0;
+  let height = 0;
+  positions.forEach(position => {
+    // 按球面经纬度计算单位向量, 与极坐标的计算方式保持一致
+    const { longitude, latitude, height: h } = Cesium.Cartographic.fromCartesian(position);
+    x += Math.cos(latitude) * Math.cos(longitude);
+    y += Math.cos(latitude) * Math.sin(longitude);
+    z += Math.sin(latitude);
+    height += h;
+  });
+  return new Cesium.Cartographic(
+    Math.atan2(y, x),
+    Math.atan2(z, Math.hypot(x, y)),
+    positions.length ? height / positions.length : 0
+  );
+}
+
+/**
+ * 坐标串转经纬度平面坐标(弧度)
+ */
+function toPlane(positions: Cartesian3[]) {
+  return positions.map(position => {
+    const { longitude, latitude } = Cesium.Cartographic.fromCartesian(position);
+    return [longitude, latitude];
+  });
+}
+
+/**
+ * 判断平面上的两条线段是否相交, 端点重合不视为相交
+ */
+export function segmentsIntersect(a: number[], b: number[], c: number[], d: number[]) {
+  const cross = (o: number[], p: number[], q: number[]) => (p[0] - o[0]) * (q[1] - o[1]) - (p[1] - o[1]) * (q[0] - o[0]);
+  const d1 = cross(c, d, a);
+  const d2 = cross(c, d, b);
+  const d3 = cross(a, b, c);
+  const d4 = cross(a, b, d);
+  return d1 * d2 < 0 && d3 * d4 < 0;
+}
+
+/**
+ * 射线法判断平面上的点是否在环内
+ * @param point 点
+ * @param ring 未闭合的环
+ */
+export function pointInRing(point: number[], ring: number[][]) {
+  const [x, y] = point;
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+}
+
+/**
+ * 判断点是否在环内, 按经纬度平面计算
+ * @param point 点
+ * @param ring 未闭合的环
+ */
+export function isPointInRing(point: Cartesian3, ring: Cartesian3[]) {
+  if (ring.length < 3) return false;
+  return pointInRing(toPlane([point])[0], toPlane(ring));
+}
+
+/**
+ * 判断平面上的坐标串是否完全位于环内: 各点均在环内且各边与环不相交
+ * @param coors 坐标串
+ * @param ring 未闭合的环
+ * @param closed 坐标串是否首尾闭合
+ */
+export function coordinatesInRing(coors: number[][], ring: number[][], closed = true) {
+  if (ring.length < 3 || !coors.every(point => pointInRing(point, ring))) return false;
+  const edgeNum = closed ? coors.length : coors.length - 1;
+  for (let i = 0; i < edgeNum; i++) {
+    const start = coors[i];
+    const end = coors[(i + 1) % coors.length];
+    if (ring.some((a, j) => segmentsIntersect(start, end, a, ring[(j + 1) % ring.length]))) return false;
+  }
+  return true;
+}
+
+/**
+ * 判断平面上的坐标串是否自相交, 不相邻的两条边相交即为自相交
+ * @param coors 坐标串
+ * @param closed 坐标串是否首尾闭合
+ */
+export function isSelfIntersecting(coors: number[][], closed = true) {
+  const num = coors.length;
+  const edgeNum = closed ? num : num - 1;
+  for (let i = 0; i < edgeNum; i++) {
+    for (let j = i + 2; j < edgeNum; j++) {
+      // 闭合时首尾两条边相邻
+      if (closed && i === 0 && j === num - 1) continue;
+      if (segmentsIntersect(coors[i], coors[(i + 1) % num], coors[j], coors[(j + 1) % num])) return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * 计算经纬度环在球面上的面积
+ * @param coors 未闭合的经纬度环
+ * @returns 面积(平方米)
+ */
+export function ringArea(coors: number[][]) {
+  const num = coors.length;
+  if (num < 3) return 0;
+  let area = 0;
+  for (let i = 0; i < num; i++) {
+    const [lon1, lat1] = coors[i].map(Cesium.Math.toRadians);
+    const [lon2, lat2] = coors[(i + 1) % num].map(Cesium.Math.toRadians);
+    area += (lon2 - lon1) * (2 + Math.sin(lat1) + Math.sin(lat2));
+  }
+  return Math.abs((area * EARTH_RADIUS * EARTH_RADIUS) / 2);
+}
+
+/**
+ * 判断内环是否完全位于外环内: 各点均在外环内且各边与外环不相交
+ * @param inner 内环
+ * @param outer 外环
+ */
+export function isRingInRing(inner: Cartesian3[], outer: Cartesian3[]) {
+  if (outer.length < 3) return false;
+  return coordinatesInRing(toPlane(inner), toPlane(outer));
+}
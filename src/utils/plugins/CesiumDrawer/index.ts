@@ -1,5 +1,47 @@
+import BaseDrawer from "./BaseDrawer";
 import PolygonDrawer from "./PolygonDrawer";
+import PolylineDrawer from "./PolylineDrawer";
+import RectangleDrawer from "./RectangleDrawer";
+import CircleDrawer from "./CircleDrawer";
+import EllipseDrawer from "./EllipseDrawer";
+import Subscriber from "./subscriber";
+import DomTooltip from "./DomTooltip";
+import LabelTooltip from "./LabelTooltip";
+import ToolManager from "./ToolManager";
+
+export * from "./registry";
+export { parseWKT, stringifyWKT } from "./wkt";
+export { formatArea, formatLength } from "./measure";
+export type {
+  BaseDrawerOptions,
+  DrawerEvents,
+  DrawerStatus,
+  HistoryState,
+  InputMode,
+  PickMode,
+  RenderMode,
+  ValidationOptions,
+  VertexEvent,
+  VertexHandle,
+} from "./BaseDrawer";
+export type { Feature, FeatureCollection, Geometry, Position } from "./geojson";
+export type { Measurement, MeasureUnits } from "./measure";
+export type { KeyBindings } from "./keyboard";
+export type { SnapOptions } from "./snap";
+export type { DrawerStyle, LabelStyle, OutlineStyle, PointStyle, ShapeStyle } from "./style";
+export type { TipKey, TooltipOption, TooltipRender, TooltipRenderer, TooltipState } from "./tooltip";
+export type { EventArgs, EventType } from "./subscriber";
+export type { ActivateOptions, Tool, ToolManagerEvents } from "./ToolManager";
 
 export {
+  BaseDrawer,
   PolygonDrawer,
+  PolylineDrawer,
+  RectangleDrawer,
+  CircleDrawer,
+  EllipseDrawer,
+  Subscriber,
+  DomTooltip,
+  LabelTooltip,
+  ToolManager,
 };
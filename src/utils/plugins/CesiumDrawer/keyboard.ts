@@ -0,0 +1,69 @@
+/**
+ * 快捷键配置, 每个操作可绑定多个按键, 如 'Enter'、'Ctrl+Z'、'Meta+Shift+Z', 空数组表示不绑定
+ */
+export type KeyBindings = {
+  /** 完成绘制, 默认 Enter */
+  finish?: string[];
+  /** 取消绘制或退出编辑, 默认 Escape */
+  cancel?: string[];
+  /** 移除活动点或鼠标下的点, 默认 Backspace 和 Delete */
+  remove?: string[];
+  /** 撤销, 默认 Ctrl+Z 和 Meta+Z */
+  undo?: string[];
+  /** 重做, 默认 Ctrl+Y、Ctrl+Shift+Z 和 Meta+Shift+Z */
+  redo?: string[];
+}
+
+export type KeyAction = keyof KeyBindings;
+
+export const DEFAULT_KEY_BINDINGS: Required<KeyBindings> = {
+  finish: ['Enter'],
+  cancel: ['Escape'],
+  remove: ['Backspace', 'Delete'],
+  undo: ['Ctrl+Z', 'Meta+Z'],
+  redo: ['Ctrl+Y', 'Ctrl+Shift+Z', 'Meta+Shift+Z'],
+}
+
+const MODIFIERS = ['Ctrl', 'Shift', 'Alt', 'Meta'] as const;
+
+/**
+ * 判断键盘事件是否与按键匹配, 修饰键需完全一致, 按键不区分大小写
+ * @param event 键盘事件
+ * @param binding 按键, 如 'Ctrl+Z'
+ */
+export function matchKey(event: KeyboardEvent, binding: string) {
+  const parts = binding.split('+');
+  const key = parts.pop();
+  if (!key) return false;
+  const pressed = {
+    Ctrl: event.ctrlKey,
+    Shift: event.shiftKey,
+    Alt: event.altKey,
+    Meta: event.metaKey,
+  };
+  return (
+    MODIFIERS.every(modifier => pressed[modifier] === parts.includes(modifier)) &&
+    event.key.toLowerCase() === key.toLowerCase()
+  );
+}
+
+/**
+ * 查找键盘事件对应的操作
+ * @param event 键盘事件
+ * @param bindings 快捷键配置
+ */
+export function findKeyAction(event: KeyboardEvent, bindings: Required<KeyBindings>) {
+  return (Object.keys(bindings) as KeyAction[]).find(action => (
+    bindings[action].some(binding => matchKey(event, binding))
+  ));
+}
+
+/**
+ * 提示文字中显示的按键, 取操作绑定的第一个按键
+ * @param bindings 快捷键配置
+ * @param action 操作
+ */
+export function keyHint(bindings: Required<KeyBindings>, action: KeyAction) {
+  const binding = bindings[action][0];
+  return binding ? binding.replace('Escape', 'Esc') : null;
+}
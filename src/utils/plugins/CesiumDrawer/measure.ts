@@ -0,0 +1,80 @@
+import * as Cesium from 'cesium';
+
+import { Cartesian3 } from 'cesium';
+
+export type MeasureUnits = 'metric' | 'imperial';
+
+/**
+ * 测量结果, 长度单位为米, 面积单位为平方米
+ */
+export type Measurement = {
+  area: number;
+  perimeter: number;
+  /** 各边的长度, 第i个为第i个点到下一个点的边 */
+  segments: number[];
+}
+
+const FEET_PER_METER = 3.28084;
+const FEET_PER_MILE = 5280;
+const SQUARE_FEET_PER_ACRE = 43560;
+const ACRES_PER_SQUARE_MILE = 640;
+
+/**
+ * 计算两点在椭球面上的测地线长度
+ * @param start 起点
+ * @param end 终点
+ * @returns 长度(米)
+ */
+export function geodesicDistance(start: Cartesian3, end: Cartesian3) {
+  const ellipsoid = Cesium.Ellipsoid.WGS84;
+  const startCarto = ellipsoid.cartesianToCartographic(start);
+  const endCarto = ellipsoid.cartesianToCartographic(end);
+  if (!startCarto || !endCarto) return Cesium.Cartesian3.distance(start, end);
+  return new Cesium.EllipsoidGeodesic(startCarto, endCarto, ellipsoid).surfaceDistance || 0;
+}
+
+/**
+ * 计算各边的长度
+ * @param positions 坐标串
+ * @param closed 坐标串是否首尾闭合
+ * @returns 各边长度(米)
+ */
+export function segmentLengths(positions: Cartesian3[], closed = true) {
+  const edgeNum = closed && positions.length > 2 ? positions.length : positions.length - 1;
+  const lengths: number[] = [];
+  for (let i = 0; i < edgeNum; i++) {
+    lengths.push(geodesicDistance(positions[i], positions[(i + 1) % positions.length]));
+  }
+  return lengths;
+}
+
+/**
+ * 格式化长度, 公制在 m 和 km 之间切换, 英制在 ft 和 mi 之间切换
+ * @param meters 长度(米)
+ * @param units 单位制
+ */
+export function formatLength(meters: number, units: MeasureUnits = 'metric') {
+  if (units === 'imperial') {
+    const feet = meters * FEET_PER_METER;
+    return feet < FEET_PER_MILE ? `${feet.toFixed(2)} ft` : `${(feet / FEET_PER_MILE).toFixed(3)} mi`;
+  }
+  return meters < 1000 ? `${meters.toFixed(2)} m` : `${(meters / 1000).toFixed(3)} km`;
+}
+
+/**
+ * 格式化面积, 公制在 m²、ha 和 km² 之间切换, 英制在 ft²、ac 和 mi² 之间切换
+ * @param squareMeters 面积(平方米)
+ * @param units 单位制
+ */
+export function formatArea(squareMeters: number, units: MeasureUnits = 'metric') {
+  if (units === 'imperial') {
+    const squareFeet = squareMeters * FEET_PER_METER ** 2;
+    const acres = squareFeet / SQUARE_FEET_PER_ACRE;
+    if (squareFeet < SQUARE_FEET_PER_ACRE) return `${squareFeet.toFixed(2)} ft²`;
+    if (acres < ACRES_PER_SQUARE_MILE) return `${acres.toFixed(3)} ac`;
+    return `${(acres / ACRES_PER_SQUARE_MILE).toFixed(3)} mi²`;
+  }
+  if (squareMeters < 1e4) return `${squareMeters.toFixed(2)} m²`;
+  if (squareMeters < 1e6) return `${(squareMeters / 1e4).toFixed(3)} ha`;
+  return `${(squareMeters / 1e6).toFixed(3)} km²`;
+}
@@ -0,0 +1,97 @@
+import { CallbackProperty, Entity, Viewer } from 'cesium';
+import BaseDrawer, { BaseDrawerOptions } from './BaseDrawer';
+import PolygonDrawer from './PolygonDrawer';
+import PolylineDrawer from './PolylineDrawer';
+import RectangleDrawer from './RectangleDrawer';
+import CircleDrawer from './CircleDrawer';
+import EllipseDrawer from './EllipseDrawer';
+
+/**
+ * 绘制工具类, O 为构造参数的类型
+ */
+export type DrawerConstructor<O extends BaseDrawerOptions = BaseDrawerOptions> = new (viewer: Viewer, options?: O) => BaseDrawer;
+
+/**
+ * 自定义图形的声明
+ */
+export type ShapeDefinition = {
+  /** 完成绘制所需的最少点数 */
+  minPointNum: number;
+  /** 达到该点数后自动完成绘制, 默认不限制 */
+  maxPointNum?: number;
+  /** 图形是否首尾闭合, 默认false */
+  closed?: boolean;
+  /** 由坐标串构建图形的Entity参数 */
+  buildGeometry: (positions: CallbackProperty) => Entity.ConstructorOptions;
+}
+
+const drawers = new Map<string, DrawerConstructor>();
+
+/**
+ * 由图形声明生成绘制工具类
+ * @param definition 图形声明
+ * @returns 继承自BaseDrawer的绘制工具类
+ */
+export function defineDrawer(definition: ShapeDefinition): DrawerConstructor {
+  const { minPointNum, maxPointNum = Number.POSITIVE_INFINITY, closed = false, buildGeometry } = definition;
+  return class extends BaseDrawer {
+    protected _minPointNum = minPointNum;
+    protected _maxPointNum = maxPointNum;
+    protected _closed = closed;
+
+    protected buildGeometry(positions: CallbackProperty) {
+      return buildGeometry(positions);
+    }
+  };
+}
+
+/**
+ * 注册绘制工具, 同名的类型会被覆盖
+ * @param type 图形类型
+ * @param drawer 绘制工具类或图形声明
+ */
+export function registerDrawer<O extends BaseDrawerOptions>(type: string, drawer: DrawerConstructor<O> | ShapeDefinition) {
+  drawers.set(type, typeof drawer === 'function' ? drawer as DrawerConstructor : defineDrawer(drawer));
+}
+
+/**
+ * 移除已注册的绘制工具
+ * @param type 图形类型
+ * @returns {boolean} 是否移除成功
+ */
+export function unregisterDrawer(type: string) {
+  return drawers.delete(type);
+}
+
+/**
+ * 获取已注册的绘制工具类
+ * @param type 图形类型
+ */
+export function getDrawer<O extends BaseDrawerOptions = BaseDrawerOptions>(type: string) {
+  return drawers.get(type) as DrawerConstructor<O> | undefined;
+}
+
+/**
+ * 已注册的图形类型
+ */
+export function getDrawerTypes() {
+  return [...drawers.keys()];
+}
+
+/**
+ * 创建指定类型的绘制工具
+ * @param type 图形类型
+ * @param viewer cesium viewer
+ * @param options 绘制工具参数
+ */
+export function createDrawer<O extends BaseDrawerOptions = BaseDrawerOptions>(type: string, viewer: Viewer, options?: O) {
+  const Drawer = getDrawer<O>(type);
+  if (!Drawer) throw new Error(`no drawer registered for type: ${type}`);
+  return new Drawer(viewer, options);
+}
+
+registerDrawer('polygon', PolygonDrawer);
+registerDrawer('polyline', PolylineDrawer);
+registerDrawer('rectangle', RectangleDrawer);
+registerDrawer('circle', CircleDrawer);
+registerDrawer('ellipse', EllipseDrawer);
@@ -0,0 +1,123 @@
+import * as Cesium from 'cesium';
+
+import { Cartesian2, Cartesian3, DataSource, Entity, JulianDate, Scene } from 'cesium';
+import { interpolate } from './geometry';
+
+/**
+ * 吸附配置
+ */
+export type SnapOptions = {
+  /** 吸附的像素容差, 默认10 */
+  tolerance?: number;
+  /** 是否吸附到顶点, 默认true */
+  vertex?: boolean;
+  /** 是否吸附到边, 默认true */
+  edge?: boolean;
+  /** 额外的吸附目标, 已绘制的其他图形始终参与吸附 */
+  targets?: (Entity | DataSource)[];
+  /** 按住Shift时约束的角度, 默认90 */
+  angle?: 90 | 45;
+}
+
+/**
+ * 参与吸附的坐标串
+ */
+export type SnapRing = {
+  positions: Cartesian3[];
+  closed: boolean;
+}
+
+export type SnapResult = {
+  position: Cartesian3;
+  type: 'vertex' | 'edge';
+}
+
+/**
+ * 获取Entity的点、线和多边形坐标串
+ * @param entity Entity
+ * @param time 当前时间
+ */
+function entityRings(entity: Entity, time: JulianDate): SnapRing[] {
+  const rings: SnapRing[] = [];
+  const hierarchy: Cesium.PolygonHierarchy | undefined = entity.polygon?.hierarchy?.getValue(time);
+  if (hierarchy) {
+    const walk = (item: Cesium.PolygonHierarchy) => {
+      rings.push({ positions: item.positions, closed: true });
+      item.holes?.forEach(walk);
+    };
+    walk(hierarchy);
+  }
+  const linePositions: Cartesian3[] | undefined = entity.polyline?.positions?.getValue(time);
+  if (linePositions) rings.push({ positions: linePositions, closed: false });
+  const position = entity.position?.getValue(time);
+  if (position && (entity.point || entity.billboard)) rings.push({ positions: [position], closed: false });
+  return rings.filter(ring => ring.positions?.length);
+}
+
+/**
+ * 获取吸附目标的坐标串
+ * @param targets Entity或数据源
+ * @param time 当前时间
+ */
+export function targetRings(targets: (Entity | DataSource)[], time: JulianDate) {
+  return targets.flatMap(target => (
+    target instanceof Cesium.Entity
+      ? entityRings(target, time)
+      : target.show ? target.entities.values.flatMap(entity => entityRings(entity, time)) : []
+  ));
+}
+
+/**
+ * 屏幕上的点到线段的最近点参数
+ * @returns 最近点在线段上的比例, 0为起点, 1为终点
+ */
+function projectToSegment(point: Cartesian2, start: Cartesian2, end: Cartesian2) {
+  const dx = end.x - start.x;
+  const dy = end.y - start.y;
+  const length = dx * dx + dy * dy;
+  if (!length) return 0;
+  return Cesium.Math.clamp(((point.x - start.x) * dx + (point.y - start.y) * dy) / length, 0, 1);
+}
+
+/**
+ * 在屏幕空间中查找容差内最近的顶点或边, 顶点优先
+ * @param scene 场景
+ * @param windowPosition 鼠标屏幕坐标
+ * @param rings 参与吸附的坐标串
+ * @param options 吸附配置
+ */
+export function findSnap(scene: Scene, windowPosition: Cartesian2, rings: SnapRing[], options: SnapOptions): SnapResult | null {
+  const { tolerance = 10, vertex = true, edge = true } = options;
+  let vertexResult: SnapResult | null = null;
+  let edgeResult: SnapResult | null = null;
+  let vertexDistance = tolerance;
+  let edgeDistance = tolerance;
+
+  for (const { positions, closed } of rings) {
+    const windows = positions.map(position => Cesium.SceneTransforms.worldToWindowCoordinates(scene, position));
+    for (let i = 0; vertex && i < windows.length; i++) {
+      const window = windows[i];
+      const distance = window ? Cesium.Cartesian2.distance(window, windowPosition) : Number.POSITIVE_INFINITY;
+      if (distance <= vertexDistance) {
+        vertexDistance = distance;
+        vertexResult = { position: positions[i].clone(), type: 'vertex' };
+      }
+    }
+    if (!edge || positions.length < 2) continue;
+    const edgeNum = closed && positions.length > 2 ? positions.length : positions.length - 1;
+    for (let i = 0; i < edgeNum; i++) {
+      const j = (i + 1) % positions.length;
+      const start = windows[i];
+      const end = windows[j];
+      if (!start || !end) continue;
+      const t = projectToSegment(windowPosition, start, end);
+      const nearest = Cesium.Cartesian2.lerp(start, end, t, new Cesium.Cartesian2());
+      const distance = Cesium.Cartesian2.distance(nearest, windowPosition);
+      if (distance <= edgeDistance) {
+        edgeDistance = distance;
+        edgeResult = { position: interpolate(positions[i], positions[j], t), type: 'edge' };
+      }
+    }
+  }
+  return vertexResult ?? edgeResult;
+}
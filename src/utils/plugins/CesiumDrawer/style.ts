@@ -0,0 +1,144 @@
+import * as Cesium from 'cesium';
+
+import { Cartesian2, Color, Entity, Label, MaterialProperty, PointPrimitive } from 'cesium';
+
+export type PointStyle = {
+  color?: Color;
+  pixelSize?: number;
+  outlineColor?: Color;
+  outlineWidth?: number;
+}
+
+export type OutlineStyle = {
+  color?: Color;
+  width?: number;
+}
+
+/**
+ * 图形的填充和边线, 线图形只使用 material
+ */
+export type ShapeStyle = {
+  material?: Color | MaterialProperty;
+  /** 多边形的边线, 为false时不绘制 */
+  outline?: OutlineStyle | false;
+}
+
+export type LabelStyle = {
+  font?: string;
+  fillColor?: Color;
+  backgroundColor?: Color;
+  showBackground?: boolean;
+  outlineColor?: Color;
+  outlineWidth?: number;
+  pixelOffset?: Cartesian2;
+}
+
+/**
+ * 绘制工具的样式
+ */
+export type DrawerStyle = ShapeStyle & {
+  /** 已添加的点 */
+  point?: PointStyle;
+  /** 绘制中跟随鼠标的点 */
+  activePoint?: PointStyle;
+  /** 编辑时鼠标下的点 */
+  hoverPoint?: PointStyle;
+  /** 图形集合中未选中的图形, 未设置的属性沿用 material 和 outline */
+  completed?: ShapeStyle;
+  /** 提示标签 */
+  label?: LabelStyle;
+}
+
+export type PointState = 'point' | 'activePoint' | 'hoverPoint';
+
+const POINT_STYLE: Required<PointStyle> = {
+  color: Cesium.Color.SKYBLUE,
+  pixelSize: 5,
+  outlineColor: Cesium.Color.YELLOW,
+  outlineWidth: 3,
+};
+
+export const DEFAULT_STYLE: DrawerStyle = {
+  point: POINT_STYLE,
+  activePoint: { ...POINT_STYLE, pixelSize: 10 },
+  hoverPoint: { ...POINT_STYLE, pixelSize: 10 },
+  outline: { color: Cesium.Color.YELLOW, width: 2 },
+  completed: {},
+  label: {},
+}
+
+/** 触摸模式下加大点, 方便手指拖拽 */
+export const TOUCH_STYLE: DrawerStyle = {
+  point: { pixelSize: 12 },
+  activePoint: { pixelSize: 16 },
+  hoverPoint: { pixelSize: 16 },
+}
+
+/**
+ * 合并样式, 点、边线和标签的样式按属性合并
+ * @param base 原样式
+ * @param style 新样式
+ */
+export function mergeStyle(base: DrawerStyle, style: DrawerStyle = {}): DrawerStyle {
+  const mergeOutline = (a?: OutlineStyle | false, b?: OutlineStyle | false) => (
+    b === undefined ? a : b && a ? { ...a, ...b } : b
+  );
+  return {
+    ...base,
+    ...style,
+    point: { ...base.point, ...style.point },
+    activePoint: { ...base.activePoint, ...style.activePoint },
+    hoverPoint: { ...base.hoverPoint, ...style.hoverPoint },
+    outline: mergeOutline(base.outline, style.outline),
+    completed: {
+      ...base.completed,
+      ...style.completed,
+      outline: mergeOutline(base.completed?.outline, style.completed?.outline),
+    },
+    label: { ...base.label, ...style.label },
+  };
+}
+
+export function toMaterial(material: Color | MaterialProperty) {
+  return material instanceof Cesium.Color ? new Cesium.ColorMaterialProperty(material) : material;
+}
+
+/**
+ * 材质对应的颜色, 图元只支持纯色, 非纯色材质使用默认颜色
+ * @param material 材质
+ * @param fallback 默认颜色
+ */
+export function toColor(material: Color | MaterialProperty | undefined, fallback: Color): Color {
+  if (material instanceof Cesium.Color) return material;
+  return material?.getValue(Cesium.JulianDate.now())?.color ?? fallback;
+}
+
+/**
+ * 设置点Entity或点图元的样式
+ * @param entity 点Entity或点图元
+ * @param style 点样式
+ */
+export function applyPointStyle(entity: Entity | PointPrimitive, style: PointStyle = {}) {
+  const { color, pixelSize, outlineColor, outlineWidth } = { ...POINT_STYLE, ...style };
+  if (!(entity instanceof Cesium.Entity)) {
+    Object.assign(entity, { color, pixelSize, outlineColor, outlineWidth });
+    return;
+  }
+  const { point } = entity;
+  if (!point) return;
+  point.color = new Cesium.ConstantProperty(color);
+  point.pixelSize = new Cesium.ConstantProperty(pixelSize);
+  point.outlineColor = new Cesium.ConstantProperty(outlineColor);
+  point.outlineWidth = new Cesium.ConstantProperty(outlineWidth);
+}
+
+/**
+ * 设置标签的样式
+ * @param label 标签
+ * @param style 标签样式
+ */
+export function applyLabelStyle(label: Label, style: LabelStyle = {}) {
+  (Object.keys(style) as (keyof LabelStyle)[]).forEach(key => {
+    if (style[key] !== undefined) (label as any)[key] = style[key];
+  });
+}
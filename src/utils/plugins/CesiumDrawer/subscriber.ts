@@ -9,6 +9,7 @@
 // @ts-nocheck
 import {
   Viewer,
+  Scene,
   ScreenSpaceEventType,
   ScreenSpaceEventHandler,
   Entity,
@@ -19,15 +20,64 @@ export interface EventArgs {
   position?: Cartesian2
   endPosition?: Cartesian2
   startPosition?: Cartesian2
+  /**
+   * 阻止优先级更低的监听收到该事件
+   */
+  stopPropagation?: () => void
+  /**
+   * 拾取事件位置最上层的对象, 同一事件的所有监听共用拾取结果
+   */
+  pick?: () => any
+  /**
+   * 拾取事件位置的所有对象, 用于查找被遮挡的对象, 如重叠的控制点
+   */
+  drillPick?: (limit?: number) => any[]
   [name: string]: any
 }
-export type ListenCallback<T extends Entity> = (
+
+/**
+ * 可监听的对象: Entity、图元(如 PointPrimitive、Model、Primitive)或 Cesium3DTileset,
+ * 拾取结果的 id、primitive 或拾取对象本身与之相同时触发
+ */
+export type Substance = Entity | object
+
+export type ListenCallback<T extends Substance> = (
   movement: EventArgs,
-  substance: T
+  substance: T,
+  picked: any
 ) => void
 
 export type ExternalListenCallback = (movement: EventArgs) => void
 
+type Registration = {
+  callback: ListenCallback<Substance> | ExternalListenCallback
+  priority: number
+  /** 注册的顺序 */
+  order: number
+}
+
+type Call = Registration & {
+  external: boolean
+  substance?: Substance
+}
+
+/**
+ * 同一canvas上的所有Subscriber共用一个ScreenSpaceEventHandler, 以便按优先级统一派发事件
+ */
+type Hub = {
+  scene: Scene
+  handler: ScreenSpaceEventHandler
+  subscribers: Subscriber[]
+  types: Set<EventType>
+  /** 等待下一帧派发的鼠标移动事件 */
+  pendingMove?: EventArgs
+  frame?: number
+}
+
+const hubs = new WeakMap<HTMLCanvasElement, Hub>()
+
+let registerOrder = 0
+
 // const eventType = ;
 
 export type EventType =
@@ -47,12 +97,102 @@ export type EventType =
   | 'PINCH_MOVE'
   | 'PINCH_END'
 
-type EventCollection = Record<EventType, Map<string, ListenCallback<Entity>>>
+type EventCollection = Record<EventType, Map<Substance, Registration>>
+
+type ExternalEventCollection = Record<EventType, Map<string, Registration>>
+
+/**
+ * 拾取结果对应的可监听对象, 依次为 id(如Entity)、primitive(如图元、3D Tiles要素所在的tileset)和拾取对象本身
+ */
+function pickedSubstances(picked: any): Substance[] {
+  if (!picked) return []
+  return [picked.id, picked.primitive, picked].filter(
+    item => item && typeof item === 'object'
+  )
+}
+
+/**
+ * 按优先级从高到低派发事件, 同一优先级下先调用不过滤对象的事件, 再按注册顺序调用
+ */
+function dispatch(hub: Hub, eventType: EventType, movement: EventArgs): void {
+  const position =
+    eventType === 'MOUSE_MOVE' ? movement.endPosition : movement.position
+  let picked
+  let isPicked = false
+  // 只在有监听需要时拾取, 且每个事件只拾取一次
+  const pick = () => {
+    if (!isPicked) {
+      picked = position ? hub.scene.pick(position) : undefined
+      isPicked = true
+    }
+    return picked
+  }
+  const drilled = new Map<number, any[]>()
+  const drillPick = (limit?: number) => {
+    const key = limit ?? Number.POSITIVE_INFINITY
+    if (!drilled.has(key)) {
+      drilled.set(key, position ? hub.scene.drillPick(position, limit) : [])
+    }
+    return drilled.get(key)
+  }
+
+  const calls: Call[] = []
+  hub.subscribers.forEach(subscriber =>
+    calls.push(...subscriber._collect(eventType, pick))
+  )
+  calls.sort(
+    (a, b) =>
+      b.priority - a.priority ||
+      Number(b.external) - Number(a.external) ||
+      a.order - b.order
+  )
+
+  let stopped = false
+  const event: EventArgs = {
+    ...movement,
+    stopPropagation: () => {
+      stopped = true
+    },
+    pick,
+    drillPick
+  }
+  for (const call of calls) {
+    if (call.external) {
+      call.callback(event)
+    } else {
+      call.callback(event, call.substance, picked)
+    }
+    if (stopped) break
+  }
+}
+
+/**
+ * 合并鼠标移动事件, 每帧只派发一次
+ */
+function scheduleMove(hub: Hub, movement: EventArgs): void {
+  // ScreenSpaceEventHandler 会复用事件对象, 需要复制坐标
+  hub.pendingMove = {
+    startPosition: (hub.pendingMove?.startPosition ?? movement.startPosition)?.clone(),
+    endPosition: movement.endPosition?.clone()
+  }
+  if (hub.frame === undefined) {
+    hub.frame = requestAnimationFrame(() => flushMove(hub))
+  }
+}
 
-type ExternalEventCollection = Record<
-  EventType,
-  Map<string, ListenCallback<Entity>>
->
+/**
+ * 立即派发等待中的鼠标移动事件, 其他事件派发前调用以保证事件顺序
+ */
+function flushMove(hub: Hub): void {
+  if (hub.frame !== undefined) {
+    cancelAnimationFrame(hub.frame)
+    hub.frame = undefined
+  }
+  const movement = hub.pendingMove
+  if (!movement) return
+  hub.pendingMove = undefined
+  dispatch(hub, 'MOUSE_MOVE', movement)
+}
 
 function uniqueId(): string {
   let _val = "";
@@ -69,7 +209,14 @@ function uniqueId(): string {
 export default class Subscriber {
   private _viewer: Viewer
 
-  private _handler: ScreenSpaceEventHandler
+  private _element: HTMLCanvasElement
+
+  private _hub: Hub
+
+  /**
+   * 未指定优先级时的默认优先级, 越大越先调用
+   */
+  private _priority: number
 
   private _eventCollection: EventCollection = Object.create(null)
 
@@ -102,9 +249,27 @@ export default class Subscriber {
 
   private _isDestroy: boolean
 
-  constructor(viewer: Viewer, element?: HTMLCanvasElement) {
+  /**
+   * @param viewer cesium viewer
+   * @param element 监听的canvas, 默认为 viewer.canvas
+   * @param priority 默认优先级, 默认为0
+   */
+  constructor(viewer: Viewer, element?: HTMLCanvasElement, priority = 0) {
     this._viewer = viewer
-    this._handler = new ScreenSpaceEventHandler(element || this._viewer.canvas)
+    this._element = element || this._viewer.canvas
+    this._priority = priority
+    let hub = hubs.get(this._element)
+    if (!hub) {
+      hub = {
+        scene: viewer.scene,
+        handler: new ScreenSpaceEventHandler(this._element),
+        subscribers: [],
+        types: new Set()
+      }
+      hubs.set(this._element, hub)
+    }
+    hub.subscribers.push(this)
+    this._hub = hub
     this._isDestroy = false
     this._initListener()
   }
@@ -118,51 +283,64 @@ export default class Subscriber {
 
   private _eventRegister(eventType: EventType): void {
     if (this._isDestroy) return
-    const eventCollection = this._eventCollection[eventType]
-    const externalEventCollection = this._externalEventCollection[eventType]
-    this._handler.setInputAction((movement: EventArgs) => {
-      if (externalEventCollection.size > 0) {
-        const iterator = externalEventCollection.values()
-        let val = iterator.next()
-        while (!val.done) {
-          val.value(movement)
-          val = iterator.next()
-        }
-      }
-
-      if (this._isDestroy) return
-
-      if (movement.position || movement.endPosition) {
-        let entity: Entity;
+    const hub = this._hub
+    if (hub.types.has(eventType)) return
+    hub.types.add(eventType)
+    hub.handler.setInputAction(
+      (movement: EventArgs) => {
         if (eventType === 'MOUSE_MOVE') {
-          entity = this._viewer.scene.pick(movement.endPosition)?.id
-        } else {
-          entity = this._viewer.scene.pick(movement.position)?.id
-        }
-        if (
-          entity &&
-          eventCollection.has(entity.id) &&
-          typeof eventCollection.get(entity.id) === 'function'
-        ) {
-          eventCollection.get(entity.id)(movement, entity)
+          scheduleMove(hub, movement)
+          return
         }
-      }
-    }, ScreenSpaceEventType[eventType])
+        flushMove(hub)
+        dispatch(hub, eventType, movement)
+      },
+      ScreenSpaceEventType[eventType]
+    )
   }
 
   /**
-   * @description 为Entity添加监听事件
+   * 收集该Subscriber中需要响应事件的监听
+   * @param eventType 事件类型
+   * @param pick 拾取当前位置的对象
+   */
+  _collect(eventType: EventType, pick: () => any): Call[] {
+    if (this._isDestroy) return []
+    const calls: Call[] = []
+    this._externalEventCollection[eventType].forEach(registration =>
+      calls.push({ ...registration, external: true })
+    )
+    const eventCollection = this._eventCollection[eventType]
+    if (eventCollection.size === 0) return calls
+    const substance = pickedSubstances(pick()).find(item =>
+      eventCollection.has(item)
+    )
+    if (substance) {
+      calls.push({
+        ...eventCollection.get(substance),
+        external: false,
+        substance
+      })
+    }
+    return calls
+  }
+
+  /**
+   * @description 为Entity、图元或3D Tiles添加监听事件
    *
    * @event
    *
-   * @param {Function} callback 需要相应的事件
+   * @param {Function} callback 需要相应的事件, 参数为事件、监听的对象和拾取结果
    *
    * @param {EventType} eventType 事件类型
+   *
+   * @param {number} priority 优先级, 越大越先调用
    */
-  add<T extends Entity>(
+  add<T extends Substance>(
     substances: T | T[],
     callback: ListenCallback<T>,
-    eventType: EventType
+    eventType: EventType,
+    priority = this._priority
   ): void {
     if (this._isDestroy) return
 
@@ -175,17 +353,26 @@ export default class Subscriber {
     substances = Array.isArray(substances) ? substances : [substances]
 
     for (const substance of substances) {
-      this._eventCollection[eventType].set(substance.id, callback)
+      this._eventCollection[eventType].set(substance, {
+        callback,
+        priority,
+        order: registerOrder++
+      })
     }
   }
 
   /**
    * @description 添加特定事件，与add不同在于该事件不会过滤Entity
-   * @param callback 事件处理函数
+   * @param callback 事件处理函数, 调用 movement.stopPropagation() 阻止优先级更低的监听
    * @param eventType 事件类型
+   * @param priority 优先级, 越大越先调用
    * @return {string} Event Id  事件移除时需要提供事件ID
    */
-  addExternal(callback: ExternalListenCallback, eventType: EventType): string {
+  addExternal(
+    callback: ExternalListenCallback,
+    eventType: EventType,
+    priority = this._priority
+  ): string {
     if (this._isDestroy) return
 
     if (
@@ -195,7 +382,11 @@ export default class Subscriber {
       this._eventRegister(eventType)
 
     const eId = uniqueId()
-    this._externalEventCollection[eventType].set(eId, callback)
+    this._externalEventCollection[eventType].set(eId, {
+      callback,
+      priority,
+      order: registerOrder++
+    })
     return eId
   }
 
@@ -204,14 +395,12 @@ export default class Subscriber {
    * @param substances 需要移除事件的Substance
    * @param eventType 需要移除的时间类型
    */
-  remove<T extends Entity>(substances: T | T[], eventType: EventType): void {
+  remove<T extends Substance>(substances: T | T[], eventType: EventType): void {
     if (this._isDestroy) return
 
     substances = Array.isArray(substances) ? substances : [substances]
     for (const substance of substances) {
-      if (this._eventCollection[eventType].has(substance.id)) {
-        this._eventCollection[eventType].delete(substance.id)
-      }
+      this._eventCollection[eventType].delete(substance)
     }
   }
 
@@ -257,7 +446,14 @@ export default class Subscriber {
     this._externalEventCollection = undefined
     this._eventCollection = undefined
     this._viewer = undefined
-    this._handler.destroy()
+    // 最后一个Subscriber销毁时销毁共用的handler
+    const hub = this._hub
+    hub.subscribers = hub.subscribers.filter(item => item !== this)
+    if (hub.subscribers.length === 0) {
+      if (hub.frame !== undefined) cancelAnimationFrame(hub.frame)
+      hub.handler.destroy()
+      hubs.delete(this._element)
+    }
 
     // 销毁所有方法
     this.add = undefined
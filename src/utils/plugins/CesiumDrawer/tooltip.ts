@@ -0,0 +1,63 @@
+import { Cartesian3, LabelCollection, Viewer } from 'cesium';
+import type { DrawerStatus } from './BaseDrawer';
+import DomTooltip from './DomTooltip';
+import LabelTooltip from './LabelTooltip';
+import { LabelStyle } from './style';
+
+/**
+ * 当前提示对应的 tips 配置项
+ * - leftClick: 绘制中, 点数不足以完成
+ * - doubleClick: 绘制中, 可以完成
+ * - edit: 鼠标位于可编辑的点上
+ */
+export type TipKey = 'leftClick' | 'doubleClick' | 'edit';
+
+/**
+ * 提示的渲染参数
+ */
+export type TooltipState = {
+  show: boolean;
+  /** 默认的提示文字 */
+  text: string;
+  tipKey: TipKey | null;
+  /** 图形无效的原因 */
+  invalidReason: string | null;
+  status: DrawerStatus;
+  /** 已添加的点数, 绘制洞时为洞的点数 */
+  vertexCount: number;
+  /** 提示所在的位置, 一般为鼠标拾取的位置 */
+  position?: Cartesian3;
+}
+
+/**
+ * 自定义提示内容, 返回的字符串作为HTML显示, 返回null时隐藏
+ */
+export type TooltipRender = (state: TooltipState) => string | HTMLElement | null;
+
+/**
+ * 提示渲染器
+ */
+export interface TooltipRenderer {
+  update(state: TooltipState): void;
+  /** 设置标签样式, 不支持时忽略 */
+  setStyle?(style: LabelStyle): void;
+  destroy(): void;
+}
+
+/**
+ * 提示方式: Cesium标签、跟随鼠标的DOM浮层、自定义DOM浮层内容或自定义渲染器
+ */
+export type TooltipOption = 'label' | 'dom' | TooltipRender | TooltipRenderer;
+
+/**
+ * 按提示方式创建渲染器
+ * @param viewer cesium viewer
+ * @param labels 标签集合, Cesium标签方式使用
+ * @param option 提示方式
+ */
+export function createTooltip(viewer: Viewer, labels: LabelCollection, option: TooltipOption = 'label'): TooltipRenderer {
+  if (option === 'label') return new LabelTooltip(labels);
+  if (option === 'dom') return new DomTooltip(viewer.container as HTMLElement);
+  if (typeof option === 'function') return new DomTooltip(viewer.container as HTMLElement, option);
+  return option;
+}
@@ -0,0 +1,126 @@
+import { closeRing, Geometry, Position } from './geojson';
+
+type Nested = number | Nested[];
+
+const TYPES: Record<string, Geometry['type']> = {
+  POINT: 'Point',
+  LINESTRING: 'LineString',
+  POLYGON: 'Polygon',
+  MULTIPOINT: 'MultiPoint',
+  MULTILINESTRING: 'MultiLineString',
+  MULTIPOLYGON: 'MultiPolygon',
+};
+
+/** 各几何类型坐标的嵌套层数, 0 表示单个坐标 */
+const DEPTHS: Record<Geometry['type'], number> = {
+  Point: 0,
+  LineString: 1,
+  MultiPoint: 1,
+  Polygon: 2,
+  MultiLineString: 2,
+  MultiPolygon: 3,
+};
+
+/**
+ * 解析括号内的坐标, 坐标以空格分隔数值, 以逗号分隔坐标
+ * @param text 去除类型关键字后的文本
+ */
+function parseNested(text: string) {
+  const tokens = text.match(/\(|\)|,|[^\s(),]+/g) ?? [];
+  let index = 0;
+
+  const parseList = (): Nested[] => {
+    if (tokens[index++] !== '(') throw new Error(`Invalid WKT: expected "(" at token ${index}`);
+    const items: Nested[] = [];
+    while (index < tokens.length) {
+      if (tokens[index] === '(') {
+        items.push(parseList());
+      } else {
+        // 一个坐标由若干数值组成, MULTIPOINT 允许省略每个点的括号
+        const coor: number[] = [];
+        while (index < tokens.length && !['(', ')', ','].includes(tokens[index])) {
+          const value = Number(tokens[index++]);
+          if (Number.isNaN(value)) throw new Error(`Invalid WKT: "${tokens[index - 1]}" is not a number`);
+          coor.push(value);
+        }
+        if (!coor.length) throw new Error('Invalid WKT: empty coordinate');
+        items.push(coor);
+      }
+      const token = tokens[index++];
+      if (token === ')') return items;
+      if (token !== ',') throw new Error('Invalid WKT: unclosed parenthesis');
+    }
+    throw new Error('Invalid WKT: unclosed parenthesis');
+  };
+
+  const result = parseList();
+  if (index !== tokens.length) throw new Error('Invalid WKT: unexpected content after geometry');
+  return result;
+}
+
+function depthOf(value: Nested): number {
+  return Array.isArray(value) && Array.isArray(value[0]) ? depthOf(value[0]) + 1 : 0;
+}
+
+/**
+ * 解析WKT为GeoJSON几何, 支持 POINT、LINESTRING、POLYGON 及对应的 MULTI 类型, 多边形可带洞
+ * @param wkt WKT字符串, 如 POLYGON((120 30,121 30,121 31,120 30))
+ * @returns GeoJSON几何
+ */
+export function parseWKT(wkt: string): Geometry {
+  const match = /^\s*(?:SRID=\d+;\s*)?([A-Za-z]+)(?:\s+(?:ZM|Z|M))?\s*([\s\S]*?)\s*$/.exec(wkt ?? '');
+  const type = match && TYPES[match[1].toUpperCase()];
+  if (!match || !type) throw new Error(`Unsupported WKT: ${wkt}`);
+  const body = match[2];
+  if (/^EMPTY$/i.test(body)) {
+    return { type, coordinates: [] } as Geometry;
+  }
+
+  let coordinates: Nested = parseNested(body);
+  const depth = DEPTHS[type];
+  if (type === 'Point') {
+    coordinates = (coordinates as Nested[])[0];
+  } else if (type === 'MultiPoint' && depthOf(coordinates) === 2) {
+    // MULTIPOINT((1 2),(3 4)) 的写法
+    coordinates = (coordinates as Nested[][]).map(point => point[0]);
+  }
+  if (depthOf(coordinates) !== depth) throw new Error(`Invalid WKT: wrong nesting for ${match[1].toUpperCase()}`);
+  if (type === 'Polygon' || type === 'MultiPolygon') {
+    const polygons = (type === 'Polygon' ? [coordinates] : coordinates) as Position[][][];
+    polygons.forEach(rings => rings.forEach((ring, index) => {
+      rings[index] = closeRing(ring);
+    }));
+  }
+  return { type, coordinates } as Geometry;
+}
+
+function stringifyCoordinates(coordinates: Nested): string {
+  if (!Array.isArray(coordinates[0])) return (coordinates as number[]).join(' ');
+  return `(${(coordinates as Nested[]).map(stringifyCoordinates).join(',')})`;
+}
+
+/**
+ * 将GeoJSON几何写为WKT, 多边形的环首尾闭合
+ * @param geometry GeoJSON几何
+ * @returns WKT字符串
+ */
+export function stringifyWKT(geometry: Geometry) {
+  const name = Object.keys(TYPES).find(key => TYPES[key] === geometry.type);
+  if (!name) throw new Error(`Unsupported geometry type: ${(geometry as Geometry).type}`);
+  let coordinates = geometry.coordinates as Nested[];
+  if (geometry.type === 'Polygon') {
+    coordinates = geometry.coordinates.map(closeRing);
+  } else if (geometry.type === 'MultiPolygon') {
+    coordinates = geometry.coordinates.map(rings => rings.map(closeRing));
+  }
+  if (!coordinates.length) return `${name} EMPTY`;
+
+  // 首个坐标带有高度时按三维输出
+  let first: Nested = coordinates;
+  while (Array.isArray(first[0])) first = first[0];
+  const dimension = (first as number[]).length > 2 ? ' Z ' : '';
+  const body = geometry.type === 'Point'
+    ? `(${stringifyCoordinates(coordinates)})`
+    : stringifyCoordinates(coordinates);
+  return `${name}${dimension}${body}`;
+}